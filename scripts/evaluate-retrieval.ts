@@ -0,0 +1,156 @@
+/**
+ * Score a golden set against the knowledge base from the command line.
+ *
+ *   npm run eval:retrieval -- --set golden.json [--top-k 3,5,10] [--json]
+ *   npm run eval:retrieval -- --set golden.json --corpus ./docs --chunk-sizes 500,1000,1500
+ *
+ * Without `--corpus` the configured vector store is searched as it is. With
+ * it, the text and markdown files under the directory are ingested into a
+ * fresh in-memory store once per chunk size, so chunking settings can be
+ * compared without touching the real knowledge base. Embeddings then default
+ * to the offline local provider, so no API key is needed. Against the real
+ * store the configured provider is used, since it must match the stored vectors.
+ */
+import { readdir, readFile } from 'fs/promises';
+import path from 'path';
+import { parseArgs } from 'util';
+import type { EvalReport } from '@/utils/retrievalEval';
+import type { SplitStrategy } from '@/utils/textSplitter';
+
+const CORPUS_EXTENSIONS = ['.txt', '.md', '.markdown'];
+
+const USAGE = `Usage: npm run eval:retrieval -- --set <golden-set.json> [options]
+
+  --set <file>           Golden set: { "name", "questions": [{ "question", "expected": [...] }] }
+  --top-k <list>         Comma-separated result counts to score (default 5)
+  --corpus <dir>         Ingest .txt/.md files from this directory into a temporary store
+  --chunk-sizes <list>   Chunk sizes to compare when using --corpus (default: CHUNK_SIZE)
+  --chunk-overlap <n>    Chunk overlap when using --corpus (default: CHUNK_OVERLAP)
+  --strategy <name>      Chunking strategy when using --corpus (default: CHUNK_STRATEGY)
+  --json                 Print the full report as JSON
+`;
+
+function parseList(value: string | undefined): number[] | undefined {
+  if (!value) return undefined;
+  const numbers = value.split(',').map(part => Number(part.trim()));
+  if (numbers.some(n => !Number.isInteger(n) || n < 1)) {
+    throw new Error(`Expected a comma-separated list of positive whole numbers, got "${value}"`);
+  }
+  return numbers;
+}
+
+async function findCorpusFiles(dir: string): Promise<string[]> {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const files: string[] = [];
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await findCorpusFiles(fullPath));
+    } else if (CORPUS_EXTENSIONS.includes(path.extname(entry.name).toLowerCase())) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+function printReport(report: EvalReport, label?: string) {
+  console.log(`\n${report.set}${label ? ` (${label})` : ''}`);
+  console.table(report.results.map(result => ({
+    config: result.config.name,
+    'recall@k': Number(result.metrics.recall.toFixed(3)),
+    MRR: Number(result.metrics.mrr.toFixed(3)),
+    'nDCG@k': Number(result.metrics.ndcg.toFixed(3)),
+  })));
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      set: { type: 'string' },
+      'top-k': { type: 'string' },
+      corpus: { type: 'string' },
+      'chunk-sizes': { type: 'string' },
+      'chunk-overlap': { type: 'string' },
+      strategy: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false },
+    },
+  });
+
+  if (values.help || !values.set) {
+    console.log(USAGE);
+    process.exit(values.help ? 0 : 1);
+  }
+
+  // Settings are read when the modules load, so they must be in place first
+  process.env.EMBEDDING_CACHE ??= 'memory';
+  if (values.corpus) {
+    process.env.EMBEDDING_PROVIDER ??= 'local';
+    process.env.VECTOR_STORE = 'memory';
+  }
+
+  const { evaluateRetrieval, parseGoldenSet } = await import('@/utils/retrievalEval');
+  const { addDocument } = await import('@/utils/vectorSearch');
+  const { getVectorStore } = await import('@/utils/vectorStore');
+  const { parseSplitStrategy } = await import('@/utils/textSplitter');
+  const { getEmbeddingProvider } = await import('@/utils/embeddingProviders');
+
+  const set = parseGoldenSet(JSON.parse(await readFile(values.set, 'utf-8')));
+  const configs = (parseList(values['top-k']) ?? [5]).map(topK => ({ name: `top ${topK}`, topK }));
+
+  const reports: { label?: string; report: EvalReport }[] = [];
+
+  if (!values.corpus) {
+    // Searching with another model disables vector search, which would leave only keyword scores
+    const provider = getEmbeddingProvider().name;
+    const storedModels = Object.keys((await getVectorStore().stats()).embeddingModels);
+    const mismatched = storedModels.filter(model => model !== provider);
+    if (mismatched.length > 0) {
+      throw new Error(
+        `The knowledge base holds embeddings from ${mismatched.join(', ')} but the configured provider is ${provider}. ` +
+        'Set EMBEDDING_PROVIDER (and EMBEDDING_MODEL) to match, or re-embed the knowledge base first.'
+      );
+    }
+    reports.push({ report: await evaluateRetrieval(set, configs) });
+  } else {
+    let strategy: SplitStrategy | undefined;
+    if (values.strategy) {
+      strategy = parseSplitStrategy(values.strategy);
+      if (!strategy) throw new Error(`Unknown chunking strategy: ${values.strategy}`);
+    }
+    const chunkOverlap = values['chunk-overlap'] !== undefined ? Number(values['chunk-overlap']) : undefined;
+    const files = await findCorpusFiles(values.corpus);
+    if (files.length === 0) {
+      throw new Error(`No ${CORPUS_EXTENSIONS.join('/')} files found in ${values.corpus}`);
+    }
+
+    const store = getVectorStore();
+    // undefined keeps the configured CHUNK_SIZE
+    for (const chunkSize of parseList(values['chunk-sizes']) ?? [undefined]) {
+      await store.clear();
+      for (const file of files) {
+        const source = path.relative(values.corpus, file);
+        await addDocument(await readFile(file, 'utf-8'), {
+          source,
+          type: 'document',
+          title: source,
+        }, { split: { strategy, chunkSize, chunkOverlap } });
+      }
+
+      const { total } = await store.stats();
+      const label = `${chunkSize ? `chunk size ${chunkSize}` : 'configured chunk size'}, ${files.length} files, ${total} chunks`;
+      reports.push({ label, report: await evaluateRetrieval(set, configs) });
+    }
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(reports, null, 2));
+  } else {
+    reports.forEach(({ label, report }) => printReport(report, label));
+  }
+}
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -13,17 +13,38 @@ import {
   RefreshCw,
   Upload,
   Plus,
-  Link
+  Link,
+  Zap,
+  FolderOpen,
+  Download,
+  ArchiveRestore,
+  BarChart3
 } from 'lucide-react';
-import { DocumentChunk } from '@/utils/vectorSearch';
+import { DEFAULT_COLLECTION } from '@/utils/collections';
+import type { EmbeddingCacheStats } from '@/utils/embeddingCache';
+import type { ReembedJob } from '@/utils/reembedJob';
+import type { CollectionSummary, KnowledgeDocument } from '@/utils/vectorSearch';
 
 export default function AdminDashboard() {
   const { data: session, status } = useSession();
   const router = useRouter();
-  const [documents, setDocuments] = useState<DocumentChunk[]>([]);
+  const [documents, setDocuments] = useState<KnowledgeDocument[]>([]);
+  const [collections, setCollections] = useState<CollectionSummary[]>([]);
+  const [cacheStats, setCacheStats] = useState<EmbeddingCacheStats | null>(null);
+  const [embeddingStatus, setEmbeddingStatus] = useState<{
+    currentModel: string;
+    storedModels: Record<string, number>;
+    job: ReembedJob | null;
+    rollbackBlockedReason?: string;
+  } | null>(null);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedType, setSelectedType] = useState<'all' | 'document' | 'youtube'>('all');
+  const [selectedCollection, setSelectedCollection] = useState('all');
+  // Where new documents and videos are added
+  const [targetCollection, setTargetCollection] = useState(DEFAULT_COLLECTION);
+  const [newCollectionName, setNewCollectionName] = useState('');
+  const [newCollectionDescription, setNewCollectionDescription] = useState('');
   const [showUploadDialog, setShowUploadDialog] = useState(false);
   const [showYouTubeDialog, setShowYouTubeDialog] = useState(false);
   const [showManualTranscriptDialog, setShowManualTranscriptDialog] = useState(false);
@@ -38,6 +59,13 @@ export default function AdminDashboard() {
   const [showChannelDialog, setShowChannelDialog] = useState(false);
   const [showWhisperDialog, setShowWhisperDialog] = useState(false);
   const [uploadProgress, setUploadProgress] = useState(false);
+  const [uploadTags, setUploadTags] = useState('');
+  const [uploadFolder, setUploadFolder] = useState('');
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [exportFiles, setExportFiles] = useState(false);
+  const [importMode, setImportMode] = useState<'merge' | 'replace'>('merge');
+  const [importFiles, setImportFiles] = useState(true);
+  const [importProgress, setImportProgress] = useState(false);
 
   useEffect(() => {
     if (status === 'loading') return;
@@ -48,14 +76,30 @@ export default function AdminDashboard() {
     }
 
     loadDocuments();
+    loadEmbeddingStatus();
   }, [session, status, router]);
 
+  // Follow a running re-embedding job until it finishes
+  useEffect(() => {
+    if (embeddingStatus?.job?.status !== 'running') return;
+    const timer = setInterval(loadEmbeddingStatus, 2000);
+    return () => clearInterval(timer);
+  }, [embeddingStatus?.job?.status]);
+
   const loadDocuments = async () => {
     try {
       setLoading(true);
-      const response = await fetch('/api/admin/documents');
+      const [response, cacheResponse, collectionsResponse] = await Promise.all([
+        fetch('/api/admin/documents'),
+        fetch('/api/admin/embedding-cache'),
+        fetch('/api/admin/collections'),
+      ]);
       const data = await response.json();
       setDocuments(data.documents || []);
+      const cacheData = await cacheResponse.json();
+      setCacheStats(cacheData.stats || null);
+      const collectionsData = await collectionsResponse.json();
+      setCollections(collectionsData.collections || []);
     } catch (error) {
       console.error('Error loading documents:', error);
     } finally {
@@ -64,7 +108,7 @@ export default function AdminDashboard() {
   };
 
   const handleDeleteDocument = async (documentId: string) => {
-    if (!confirm('Are you sure you want to delete this document?')) return;
+    if (!confirm('Are you sure you want to delete this document and all of its chunks?')) return;
 
     try {
       const response = await fetch(`/api/admin/documents/${documentId}`, {
@@ -101,6 +145,150 @@ export default function AdminDashboard() {
     }
   };
 
+  const handleCreateCollection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newCollectionName.trim()) return;
+
+    try {
+      const response = await fetch('/api/admin/collections', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newCollectionName, description: newCollectionDescription }),
+      });
+      const data = await response.json();
+
+      if (response.ok) {
+        setNewCollectionName('');
+        setNewCollectionDescription('');
+        await loadDocuments();
+      } else {
+        alert(data.error || 'Error creating collection');
+      }
+    } catch (error) {
+      console.error('Error creating collection:', error);
+      alert('Error creating collection');
+    }
+  };
+
+  const handleDeleteCollection = async (collection: CollectionSummary) => {
+    if (!confirm(`Delete the collection "${collection.name}" and its ${collection.documents} documents? This cannot be undone.`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/collections/${encodeURIComponent(collection.name)}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        if (targetCollection === collection.name) setTargetCollection(DEFAULT_COLLECTION);
+        if (selectedCollection === collection.name) setSelectedCollection('all');
+        await loadDocuments();
+      } else {
+        const data = await response.json();
+        alert(data.error || 'Error deleting collection');
+      }
+    } catch (error) {
+      console.error('Error deleting collection:', error);
+      alert('Error deleting collection');
+    }
+  };
+
+  const loadEmbeddingStatus = async () => {
+    try {
+      const response = await fetch('/api/admin/reembed');
+      const data = await response.json();
+      if (data.success) {
+        setEmbeddingStatus({
+          currentModel: data.currentModel,
+          storedModels: data.storedModels,
+          job: data.job,
+          rollbackBlockedReason: data.rollbackBlockedReason,
+        });
+      }
+    } catch (error) {
+      console.error('Error loading embedding status:', error);
+    }
+  };
+
+  const handleReembedAction = async (action: 'start' | 'cancel' | 'rollback') => {
+    if (action === 'start' && !confirm('Re-embed every chunk with the configured embedding model? Vector search resumes once the job completes.')) return;
+    if (action === 'rollback' && !confirm('Restore the embeddings from before the last re-embedding job?')) return;
+
+    try {
+      const response = await fetch('/api/admin/reembed', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        alert(data.error || 'Re-embedding request failed');
+      }
+      await loadEmbeddingStatus();
+    } catch (error) {
+      console.error('Re-embedding error:', error);
+      alert('Re-embedding request failed');
+    }
+  };
+
+  const handleClearCache = async () => {
+    if (!confirm('Clear the embedding cache? Cached texts will be embedded again on their next use.')) return;
+
+    try {
+      const response = await fetch('/api/admin/embedding-cache', {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        await loadDocuments();
+      } else {
+        alert('Error clearing embedding cache');
+      }
+    } catch (error) {
+      console.error('Error clearing embedding cache:', error);
+      alert('Error clearing embedding cache');
+    }
+  };
+
+  const handleSnapshotImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    if (importMode === 'replace' && !confirm('Replace the entire knowledge base with this snapshot? Everything not in the snapshot will be deleted.')) {
+      e.target.value = '';
+      return;
+    }
+
+    const formData = new FormData();
+    formData.append('snapshot', file);
+    formData.append('mode', importMode);
+    formData.append('files', String(importFiles));
+
+    try {
+      setImportProgress(true);
+
+      const response = await fetch('/api/admin/snapshot', {
+        method: 'POST',
+        body: formData,
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        await loadDocuments();
+        await loadEmbeddingStatus();
+        alert(data.result.warning ? `${data.message}\n\n${data.result.warning}` : data.message);
+      } else {
+        throw new Error(data.error || 'Import failed');
+      }
+    } catch (error) {
+      console.error('Snapshot import error:', error);
+      alert(`Error importing snapshot: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    } finally {
+      setImportProgress(false);
+      // Clear the file input
+      e.target.value = '';
+    }
+  };
+
   const handleSignOut = async () => {
     const { signOut } = await import('next-auth/react');
     await signOut({ callbackUrl: '/admin/login' });
@@ -112,6 +300,13 @@ export default function AdminDashboard() {
 
     const formData = new FormData();
     formData.append('file', file);
+    formData.append('tags', uploadTags);
+    formData.append('replace', String(replaceExisting));
+    formData.append('collection', targetCollection);
+    const folder = uploadFolder.trim().replace(/^\/+|\/+$/g, '');
+    if (folder) {
+      formData.append('path', `${folder}/${file.name}`);
+    }
 
     try {
       setUploadProgress(true);
@@ -126,13 +321,23 @@ export default function AdminDashboard() {
       if (data.success) {
         await loadDocuments();
         setShowUploadDialog(false);
-        alert(`Document "${data.filename}" uploaded successfully!`);
+        setUploadTags('');
+        if (data.duplicate) {
+          alert(data.message);
+        } else if (data.replaced) {
+          alert(`Document "${data.filename}" replaced the previous version!`);
+        } else {
+          const extracted = data.pages
+            ? `${data.pages} pages, ${data.characters.toLocaleString()} characters`
+            : `${data.characters.toLocaleString()} characters`;
+          alert(`Document "${data.filename}" uploaded successfully! (${extracted}, ${data.chunksAdded} chunks)`);
+        }
       } else {
         throw new Error(data.error || 'Upload failed');
       }
     } catch (error) {
       console.error('Upload error:', error);
-      alert('Error uploading file. Please try again.');
+      alert(`Error uploading file: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
       setUploadProgress(false);
       // Clear the file input
@@ -150,8 +355,8 @@ export default function AdminDashboard() {
       // Use enhanced API if API key is provided, otherwise fallback to basic API
       const endpoint = youtubeApiKey.trim() ? '/api/youtube-enhanced' : '/api/youtube';
       const requestBody = youtubeApiKey.trim() 
-        ? { url: youtubeUrl, apiKey: youtubeApiKey }
-        : { youtubeUrl };
+        ? { url: youtubeUrl, apiKey: youtubeApiKey, collection: targetCollection }
+        : { youtubeUrl, collection: targetCollection };
       
       const response = await fetch(endpoint, {
         method: 'POST',
@@ -211,7 +416,8 @@ export default function AdminDashboard() {
         body: JSON.stringify({
           youtubeUrl: manualTranscriptUrl,
           transcriptText: manualTranscriptText,
-          videoTitle: manualVideoTitle || undefined
+          videoTitle: manualVideoTitle || undefined,
+          collection: targetCollection
         }),
       });
 
@@ -251,7 +457,8 @@ export default function AdminDashboard() {
           channelInput,
           apiKey: youtubeApiKey,
           maxVideos,
-          skipExisting
+          skipExisting,
+          collection: targetCollection
         }),
       });
 
@@ -300,7 +507,8 @@ export default function AdminDashboard() {
         },
         body: JSON.stringify({
           url: youtubeUrl,
-          apiKey: youtubeApiKey
+          apiKey: youtubeApiKey,
+          collection: targetCollection
         }),
       });
 
@@ -343,13 +551,15 @@ export default function AdminDashboard() {
   };
 
   const filteredDocuments = documents.filter(doc => {
-    const matchesSearch = doc.content.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         doc.metadata.title?.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         doc.metadata.source.toLowerCase().includes(searchTerm.toLowerCase());
+    const matchesSearch = doc.title.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         doc.source.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                         !!doc.file?.name.toLowerCase().includes(searchTerm.toLowerCase());
     
-    const matchesType = selectedType === 'all' || doc.metadata.type === selectedType;
+    const matchesType = selectedType === 'all' || doc.type === selectedType;
+    const matchesCollection = selectedCollection === 'all'
+      || (doc.collection ?? DEFAULT_COLLECTION) === selectedCollection;
     
-    return matchesSearch && matchesType;
+    return matchesSearch && matchesType && matchesCollection;
   });
 
   if (status === 'loading') {
@@ -380,6 +590,13 @@ export default function AdminDashboard() {
               </h1>
             </div>
             <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.push('/admin/evaluation')}
+                className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+              >
+                <BarChart3 className="h-4 w-4 mr-2" />
+                Evaluation
+              </button>
               <span className="text-sm text-gray-600 dark:text-gray-300">
                 Welcome, {session.user?.name}
               </span>
@@ -398,7 +615,7 @@ export default function AdminDashboard() {
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         {/* Stats Cards */}
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
             <div className="flex items-center">
               <FileText className="h-8 w-8 text-blue-600" />
@@ -407,7 +624,7 @@ export default function AdminDashboard() {
                   Total Documents
                 </p>
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {documents.filter(d => d.metadata.type === 'document').length}
+                  {documents.filter(d => d.type === 'document').length}
                 </p>
               </div>
             </div>
@@ -421,7 +638,7 @@ export default function AdminDashboard() {
                   YouTube Videos
                 </p>
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {documents.filter(d => d.metadata.type === 'youtube').length}
+                  {documents.filter(d => d.type === 'youtube').length}
                 </p>
               </div>
             </div>
@@ -435,19 +652,293 @@ export default function AdminDashboard() {
                   Total Chunks
                 </p>
                 <p className="text-2xl font-bold text-gray-900 dark:text-white">
-                  {documents.length}
+                  {documents.reduce((sum, d) => sum + d.chunkIds.length, 0)}
                 </p>
               </div>
             </div>
           </div>
+
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow p-6">
+            <div className="flex items-center">
+              <Zap className="h-8 w-8 text-yellow-500" />
+              <div className="ml-4 flex-1">
+                <p className="text-sm font-medium text-gray-600 dark:text-gray-300">
+                  Embedding Cache
+                </p>
+                {cacheStats?.enabled ? (
+                  <>
+                    <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                      {Math.round(cacheStats.hitRate * 100)}% hits
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {cacheStats.hits} hits · {cacheStats.misses} misses · {cacheStats.entries} cached
+                    </p>
+                    <button
+                      onClick={handleClearCache}
+                      className="text-xs text-red-600 hover:text-red-800 dark:hover:text-red-400 mt-1"
+                    >
+                      Clear cache
+                    </button>
+                  </>
+                ) : (
+                  <p className="text-2xl font-bold text-gray-900 dark:text-white">
+                    Off
+                  </p>
+                )}
+              </div>
+            </div>
+          </div>
         </div>
 
-        {/* Quick Actions Panel */}
+        {/* Embedding Model Panel */}
+        {embeddingStatus && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+            <div className="p-6">
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                    Embedding Model
+                  </h3>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    Configured: <span className="font-mono">{embeddingStatus.currentModel}</span>
+                  </p>
+                  <p className="text-sm text-gray-600 dark:text-gray-300">
+                    Stored:{' '}
+                    {Object.keys(embeddingStatus.storedModels).length === 0
+                      ? 'no chunks yet'
+                      : Object.entries(embeddingStatus.storedModels)
+                          .map(([model, count]) => `${model} (${count} chunks)`)
+                          .join(', ')}
+                  </p>
+                  {Object.keys(embeddingStatus.storedModels).some(model => model !== embeddingStatus.currentModel) && (
+                    <p className="text-sm text-orange-600 dark:text-orange-400 mt-1">
+                      Vector search is disabled until the knowledge base is re-embedded with the configured model.
+                    </p>
+                  )}
+                  {embeddingStatus.job?.canRollback && embeddingStatus.job.previousModels && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      To roll back, switch the embedding provider back to{' '}
+                      <span className="font-mono">{embeddingStatus.job.previousModels.join(' or ')}</span> and restart the server first.
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2">
+                  {embeddingStatus.job?.status === 'running' ? (
+                    <button
+                      onClick={() => handleReembedAction('cancel')}
+                      className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700"
+                    >
+                      Cancel
+                    </button>
+                  ) : (
+                    <button
+                      onClick={() => handleReembedAction('start')}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center"
+                    >
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Re-embed
+                    </button>
+                  )}
+                  {embeddingStatus.job?.canRollback && (
+                    <button
+                      onClick={() => handleReembedAction('rollback')}
+                      disabled={!!embeddingStatus.rollbackBlockedReason}
+                      title={embeddingStatus.rollbackBlockedReason}
+                      className="px-4 py-2 bg-orange-600 text-white rounded-lg hover:bg-orange-700 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      Roll Back
+                    </button>
+                  )}
+                </div>
+              </div>
+              {embeddingStatus.job && (
+                <div className="mt-4">
+                  <div className="flex justify-between text-sm text-gray-600 dark:text-gray-300 mb-1">
+                    <span className="capitalize">
+                      {embeddingStatus.job.status.replace('-', ' ')} → {embeddingStatus.job.targetModel}
+                    </span>
+                    <span>
+                      {embeddingStatus.job.processed} / {embeddingStatus.job.total} chunks
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2">
+                    <div
+                      className="bg-blue-600 h-2 rounded-full transition-all"
+                      style={{
+                        width: `${embeddingStatus.job.total > 0
+                          ? Math.round(embeddingStatus.job.processed / embeddingStatus.job.total * 100)
+                          : 100}%`,
+                      }}
+                    />
+                  </div>
+                  {embeddingStatus.job.error && (
+                    <p className="text-sm text-red-600 dark:text-red-400 mt-2">
+                      {embeddingStatus.job.error}
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Collections Panel */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+          <div className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+              Collections
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 mb-4">
+              {collections.map((collection) => (
+                <div
+                  key={collection.name}
+                  className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 flex items-start justify-between"
+                >
+                  <div className="flex items-start">
+                    <FolderOpen className="h-5 w-5 text-blue-600 mr-3 mt-0.5" />
+                    <div>
+                      <p className="text-sm font-medium text-gray-900 dark:text-white">
+                        {collection.name}
+                      </p>
+                      {collection.description && (
+                        <p className="text-xs text-gray-500 dark:text-gray-400">
+                          {collection.description}
+                        </p>
+                      )}
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                        {collection.documents} documents · {collection.chunks} chunks
+                      </p>
+                    </div>
+                  </div>
+                  {collection.name !== DEFAULT_COLLECTION && (
+                    <button
+                      onClick={() => handleDeleteCollection(collection)}
+                      className="text-red-600 hover:text-red-900 dark:hover:text-red-400"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <form onSubmit={handleCreateCollection} className="flex flex-col sm:flex-row gap-3">
+              <input
+                type="text"
+                value={newCollectionName}
+                onChange={(e) => setNewCollectionName(e.target.value)}
+                placeholder="New collection, e.g. drivetrain"
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              />
+              <input
+                type="text"
+                value={newCollectionDescription}
+                onChange={(e) => setNewCollectionDescription(e.target.value)}
+                placeholder="Description (optional)"
+                className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              />
+              <button
+                type="submit"
+                disabled={!newCollectionName.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center justify-center"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Create
+              </button>
+            </form>
+          </div>
+        </div>
+
+        {/* Backup Panel */}
         <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
           <div className="p-6">
             <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
-              Quick Actions
+              Backup &amp; Restore
             </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+                  Download every document, chunk and embedding as a snapshot.
+                </p>
+                <label className="flex items-center text-sm text-gray-700 dark:text-gray-300 mb-3">
+                  <input
+                    type="checkbox"
+                    checked={exportFiles}
+                    onChange={(e) => setExportFiles(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Include uploaded files
+                </label>
+                <a
+                  href={`/api/admin/snapshot${exportFiles ? '?files=true' : ''}`}
+                  className="inline-flex items-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700"
+                >
+                  <Download className="h-4 w-4 mr-2" />
+                  Export Snapshot
+                </a>
+              </div>
+              <div>
+                <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+                  Merge a snapshot into the knowledge base, or replace it entirely.
+                </p>
+                <div className="flex flex-wrap items-center gap-4 mb-3">
+                  <select
+                    value={importMode}
+                    onChange={(e) => setImportMode(e.target.value as 'merge' | 'replace')}
+                    className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  >
+                    <option value="merge">Merge</option>
+                    <option value="replace">Replace</option>
+                  </select>
+                  <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={importFiles}
+                      onChange={(e) => setImportFiles(e.target.checked)}
+                      className="mr-2"
+                    />
+                    Restore uploaded files
+                  </label>
+                </div>
+                <label className={`inline-flex items-center px-4 py-2 text-white rounded-lg cursor-pointer ${
+                  importMode === 'replace' ? 'bg-orange-600 hover:bg-orange-700' : 'bg-green-600 hover:bg-green-700'
+                } ${importProgress ? 'opacity-50 pointer-events-none' : ''}`}>
+                  <ArchiveRestore className="h-4 w-4 mr-2" />
+                  {importProgress ? 'Importing...' : 'Import Snapshot'}
+                  <input
+                    type="file"
+                    accept=".gz,.jsonl"
+                    onChange={handleSnapshotImport}
+                    disabled={importProgress}
+                    className="hidden"
+                  />
+                </label>
+              </div>
+            </div>
+          </div>
+        </div>
+
+        {/* Quick Actions Panel */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+          <div className="p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Quick Actions
+              </h3>
+              <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                <span className="mr-2">Add to collection</span>
+                <select
+                  value={targetCollection}
+                  onChange={(e) => setTargetCollection(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  {collections.map((collection) => (
+                    <option key={collection.name} value={collection.name}>
+                      {collection.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-4">
               {/* Document Upload Area */}
               <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 text-center hover:border-blue-400 transition-colors">
@@ -456,7 +947,7 @@ export default function AdminDashboard() {
                   Upload Documents
                 </h4>
                 <p className="text-gray-600 dark:text-gray-400 text-sm mb-4">
-                  Add PDF, TXT, DOC, or DOCX files to the knowledge base
+                  Add documents, spreadsheets and web pages to the knowledge base
                 </p>
                 <button
                   onClick={() => setShowUploadDialog(true)}
@@ -579,6 +1070,19 @@ export default function AdminDashboard() {
                   <option value="youtube">YouTube</option>
                 </select>
 
+                <select
+                  value={selectedCollection}
+                  onChange={(e) => setSelectedCollection(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                >
+                  <option value="all">All Collections</option>
+                  {collections.map((collection) => (
+                    <option key={collection.name} value={collection.name}>
+                      {collection.name}
+                    </option>
+                  ))}
+                </select>
+
                 <button
                   onClick={() => setShowUploadDialog(true)}
                   className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 flex items-center"
@@ -653,7 +1157,10 @@ export default function AdminDashboard() {
                     Title
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
-                    Content Preview
+                    Collection
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
+                    Chunks
                   </th>
                   <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase tracking-wider">
                     Added
@@ -666,14 +1173,14 @@ export default function AdminDashboard() {
               <tbody className="bg-white dark:bg-gray-800 divide-y divide-gray-200 dark:divide-gray-700">
                 {loading ? (
                   <tr>
-                    <td colSpan={5} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
+                    <td colSpan={6} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
                       <RefreshCw className="h-6 w-6 animate-spin mx-auto mb-2" />
                       Loading documents...
                     </td>
                   </tr>
                 ) : filteredDocuments.length === 0 ? (
                   <tr>
-                    <td colSpan={5} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
+                    <td colSpan={6} className="px-6 py-4 text-center text-gray-500 dark:text-gray-400">
                       No documents found
                     </td>
                   </tr>
@@ -682,31 +1189,32 @@ export default function AdminDashboard() {
                     <tr key={doc.id} className="hover:bg-gray-50 dark:hover:bg-gray-700">
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center">
-                          {doc.metadata.type === 'document' ? (
+                          {doc.type === 'document' ? (
                             <FileText className="h-5 w-5 text-blue-600 mr-2" />
                           ) : (
                             <Youtube className="h-5 w-5 text-red-600 mr-2" />
                           )}
                           <span className="text-sm font-medium text-gray-900 dark:text-white capitalize">
-                            {doc.metadata.type}
+                            {doc.type}
                           </span>
                         </div>
                       </td>
                       <td className="px-6 py-4">
                         <div className="text-sm text-gray-900 dark:text-white">
-                          {doc.metadata.title || 'Untitled'}
+                          {doc.title || 'Untitled'}
                         </div>
                         <div className="text-sm text-gray-500 dark:text-gray-400">
-                          ID: {doc.metadata.source}
+                          ID: {doc.source}
                         </div>
                       </td>
-                      <td className="px-6 py-4">
-                        <div className="text-sm text-gray-900 dark:text-white max-w-xs truncate">
-                          {doc.content.substring(0, 100)}...
-                        </div>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {doc.collection ?? DEFAULT_COLLECTION}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900 dark:text-white">
+                        {doc.chunkIds.length}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500 dark:text-gray-400">
-                        {doc.metadata.timestamp ? new Date(doc.metadata.timestamp).toLocaleDateString() : 'N/A'}
+                        {new Date(doc.createdAt).toLocaleDateString()}
                       </td>
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <button
@@ -732,6 +1240,55 @@ export default function AdminDashboard() {
                 Upload Document
               </h3>
               <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Tags (Optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={uploadTags}
+                    onChange={(e) => setUploadTags(e.target.value)}
+                    placeholder="e.g. motor driver, datasheet"
+                    disabled={uploadProgress}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    Comma-separated labels that chat users can filter searches by
+                  </p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                    Folder in Project (Optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={uploadFolder}
+                    onChange={(e) => setUploadFolder(e.target.value)}
+                    placeholder="e.g. firmware/src"
+                    disabled={uploadProgress}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  />
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                    For source code, shown with the file name when answers cite it
+                  </p>
+                </div>
+                <div>
+                  <label className="flex items-center text-sm font-medium text-gray-700 dark:text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={replaceExisting}
+                      onChange={(e) => setReplaceExisting(e.target.checked)}
+                      disabled={uploadProgress}
+                      className="h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500 dark:bg-gray-700 dark:border-gray-600"
+                    />
+                    <span className="ml-2">
+                      Replace existing version
+                    </span>
+                  </label>
+                  <p className="text-xs text-gray-500 dark:text-gray-400 mt-1 ml-6">
+                    Swaps out an earlier upload with the same file name
+                  </p>
+                </div>
                 <div>
                   <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
                     Select File
@@ -739,11 +1296,11 @@ export default function AdminDashboard() {
                   <div className="border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg p-6 text-center">
                     <Upload className="h-8 w-8 text-gray-400 mx-auto mb-2" />
                     <p className="text-gray-600 dark:text-gray-400 text-sm mb-2">
-                      Choose a PDF, TXT, DOC, or DOCX file
+                      Choose a PDF, Word, text, Markdown, HTML, CSV or JSON file, or source code (Arduino, C/C++, Python, ROS launch, YAML)
                     </p>
                     <input
                       type="file"
-                      accept=".pdf,.doc,.docx,.txt"
+                      accept=".pdf,.doc,.docx,.txt,.md,.markdown,.html,.htm,.csv,.json,.ino,.c,.cpp,.cc,.h,.hpp,.py,.launch,.yaml,.yml"
                       onChange={handleFileUpload}
                       disabled={uploadProgress}
                       className="hidden"
@@ -0,0 +1,468 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { useRouter } from 'next/navigation';
+import {
+  ArrowLeft,
+  BarChart3,
+  Play,
+  Plus,
+  RefreshCw,
+  Save,
+  Trash2
+} from 'lucide-react';
+import type { EvalReport, GoldenSet } from '@/utils/retrievalEval';
+
+interface ConfigRow {
+  name: string;
+  topK: number;
+  vectorWeight: string;
+  keywordWeight: string;
+  minSimilarity: string;
+  diversity: 'mmr' | 'none';
+}
+
+const DEFAULT_CONFIGS: ConfigRow[] = [3, 5, 10].map(topK => ({
+  name: `top ${topK}`,
+  topK,
+  vectorWeight: '',
+  keywordWeight: '',
+  minSimilarity: '',
+  diversity: 'mmr',
+}));
+
+// One question per line: the question, then each expected source, separated by `|`
+function parseQuestionLines(text: string) {
+  return text
+    .split('\n')
+    .map(line => line.split('|').map(part => part.trim()))
+    .filter(([question]) => question)
+    .map(([question, ...expected], i) => ({ id: String(i + 1), question, expected }));
+}
+
+function formatQuestionLines(set: GoldenSet): string {
+  return set.questions
+    .map(question => [question.question, ...question.expected].join(' | '))
+    .join('\n');
+}
+
+function percent(value: number): string {
+  return `${(value * 100).toFixed(1)}%`;
+}
+
+export default function RetrievalEvaluation() {
+  const { data: session, status } = useSession();
+  const router = useRouter();
+  const [sets, setSets] = useState<GoldenSet[]>([]);
+  const [selectedSet, setSelectedSet] = useState('');
+  const [setName, setSetName] = useState('');
+  const [setDescription, setSetDescription] = useState('');
+  const [questionText, setQuestionText] = useState('');
+  const [configs, setConfigs] = useState<ConfigRow[]>(DEFAULT_CONFIGS);
+  const [report, setReport] = useState<EvalReport | null>(null);
+  const [detailConfig, setDetailConfig] = useState(0);
+  const [running, setRunning] = useState(false);
+
+  useEffect(() => {
+    if (status === 'loading') return;
+
+    if (!session) {
+      router.push('/admin/login');
+      return;
+    }
+
+    loadSets();
+  }, [session, status, router]);
+
+  const loadSets = async () => {
+    try {
+      const response = await fetch('/api/admin/golden-sets');
+      const data = await response.json();
+      setSets(data.sets || []);
+    } catch (error) {
+      console.error('Error loading golden sets:', error);
+    }
+  };
+
+  const handleSelectSet = (name: string) => {
+    setSelectedSet(name);
+    setReport(null);
+    const set = sets.find(candidate => candidate.name === name);
+    setSetName(set?.name ?? '');
+    setSetDescription(set?.description ?? '');
+    setQuestionText(set ? formatQuestionLines(set) : '');
+  };
+
+  const handleSaveSet = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const response = await fetch('/api/admin/golden-sets', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          name: setName,
+          description: setDescription,
+          questions: parseQuestionLines(questionText),
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        await loadSets();
+        setSelectedSet(data.set.name);
+      } else {
+        alert(data.error || 'Error saving golden set');
+      }
+    } catch (error) {
+      console.error('Error saving golden set:', error);
+      alert('Error saving golden set');
+    }
+  };
+
+  const handleDeleteSet = async () => {
+    if (!selectedSet || !confirm(`Delete the golden set "${selectedSet}"?`)) return;
+
+    try {
+      const response = await fetch(`/api/admin/golden-sets/${encodeURIComponent(selectedSet)}`, {
+        method: 'DELETE',
+      });
+
+      if (response.ok) {
+        await loadSets();
+        handleSelectSet('');
+      } else {
+        alert('Error deleting golden set');
+      }
+    } catch (error) {
+      console.error('Error deleting golden set:', error);
+      alert('Error deleting golden set');
+    }
+  };
+
+  const updateConfig = (index: number, changes: Partial<ConfigRow>) => {
+    setConfigs(configs.map((config, i) => i === index ? { ...config, ...changes } : config));
+  };
+
+  const handleRun = async () => {
+    // Blank fields fall back to the server's defaults
+    const numberOrUndefined = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+    try {
+      setRunning(true);
+
+      const response = await fetch('/api/admin/evaluate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          set: selectedSet,
+          configs: configs.map(config => ({
+            name: config.name,
+            topK: config.topK,
+            search: {
+              vectorWeight: numberOrUndefined(config.vectorWeight),
+              keywordWeight: numberOrUndefined(config.keywordWeight),
+              minSimilarity: numberOrUndefined(config.minSimilarity),
+              diversity: config.diversity,
+            },
+          })),
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setReport(data.report);
+        setDetailConfig(0);
+      } else {
+        alert(data.error || 'Evaluation failed');
+      }
+    } catch (error) {
+      console.error('Evaluation error:', error);
+      alert('Evaluation failed');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (status === 'loading') {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="text-center">
+          <RefreshCw className="h-8 w-8 animate-spin text-blue-600 mx-auto mb-4" />
+          <p className="text-gray-600 dark:text-gray-300">Loading...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!session) {
+    return null;
+  }
+
+  const inputClass = 'px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white';
+  const detail = report?.results[detailConfig];
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+      {/* Header */}
+      <header className="bg-white dark:bg-gray-800 shadow-sm border-b border-gray-200 dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center">
+              <BarChart3 className="h-8 w-8 text-blue-600 mr-3" />
+              <h1 className="text-2xl font-bold text-gray-900 dark:text-white">
+                Retrieval Evaluation
+              </h1>
+            </div>
+            <button
+              onClick={() => router.push('/admin/dashboard')}
+              className="flex items-center px-3 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900 dark:hover:text-white"
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Dashboard
+            </button>
+          </div>
+        </div>
+      </header>
+
+      <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Golden Set Panel */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+          <form onSubmit={handleSaveSet} className="p-6">
+            <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Golden Set
+              </h3>
+              <div className="flex items-center space-x-2">
+                <select
+                  value={selectedSet}
+                  onChange={(e) => handleSelectSet(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">New set…</option>
+                  {sets.map((set) => (
+                    <option key={set.name} value={set.name}>
+                      {set.name} ({set.questions.length})
+                    </option>
+                  ))}
+                </select>
+                {selectedSet && (
+                  <button
+                    type="button"
+                    onClick={handleDeleteSet}
+                    className="text-red-600 hover:text-red-900 dark:hover:text-red-400"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                )}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+              <input
+                type="text"
+                value={setName}
+                onChange={(e) => setSetName(e.target.value)}
+                placeholder="Name, e.g. drivetrain questions"
+                className={inputClass}
+              />
+              <input
+                type="text"
+                value={setDescription}
+                onChange={(e) => setSetDescription(e.target.value)}
+                placeholder="Description (optional)"
+                className={inputClass}
+              />
+            </div>
+            <textarea
+              value={questionText}
+              onChange={(e) => setQuestionText(e.target.value)}
+              rows={8}
+              placeholder={'One question per line, followed by the file names, titles or document ids that answer it:\nWhat is the maximum robot weight? | game-manual.pdf\nHow do I wire the motor controller? | wiring-guide.txt | Motor Controller Setup'}
+              className={`w-full font-mono text-sm ${inputClass}`}
+            />
+            <div className="flex justify-end mt-3">
+              <button
+                type="submit"
+                disabled={!setName.trim() || !questionText.trim()}
+                className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex items-center"
+              >
+                <Save className="h-4 w-4 mr-2" />
+                Save Set
+              </button>
+            </div>
+          </form>
+        </div>
+
+        {/* Configurations Panel */}
+        <div className="bg-white dark:bg-gray-800 rounded-lg shadow mb-6">
+          <div className="p-6">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+              Configurations
+            </h3>
+            <p className="text-sm text-gray-600 dark:text-gray-300 mb-4">
+              Leave a weight or threshold blank to use the server default.
+            </p>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">
+                    <th className="pr-3 pb-2">Name</th>
+                    <th className="pr-3 pb-2">Top K</th>
+                    <th className="pr-3 pb-2">Vector weight</th>
+                    <th className="pr-3 pb-2">Keyword weight</th>
+                    <th className="pr-3 pb-2">Min similarity</th>
+                    <th className="pr-3 pb-2">Diversity</th>
+                    <th className="pb-2" />
+                  </tr>
+                </thead>
+                <tbody>
+                  {configs.map((config, i) => (
+                    <tr key={i}>
+                      <td className="pr-3 pb-2">
+                        <input
+                          type="text"
+                          value={config.name}
+                          onChange={(e) => updateConfig(i, { name: e.target.value })}
+                          className={`w-32 ${inputClass}`}
+                        />
+                      </td>
+                      <td className="pr-3 pb-2">
+                        <input
+                          type="number"
+                          min="1"
+                          max="50"
+                          value={config.topK}
+                          onChange={(e) => updateConfig(i, { topK: parseInt(e.target.value) || 1 })}
+                          className={`w-20 ${inputClass}`}
+                        />
+                      </td>
+                      {(['vectorWeight', 'keywordWeight', 'minSimilarity'] as const).map((field) => (
+                        <td key={field} className="pr-3 pb-2">
+                          <input
+                            type="number"
+                            step="0.05"
+                            value={config[field]}
+                            onChange={(e) => updateConfig(i, { [field]: e.target.value })}
+                            placeholder="default"
+                            className={`w-24 ${inputClass}`}
+                          />
+                        </td>
+                      ))}
+                      <td className="pr-3 pb-2">
+                        <select
+                          value={config.diversity}
+                          onChange={(e) => updateConfig(i, { diversity: e.target.value as ConfigRow['diversity'] })}
+                          className={inputClass}
+                        >
+                          <option value="mmr">MMR</option>
+                          <option value="none">None</option>
+                        </select>
+                      </td>
+                      <td className="pb-2">
+                        <button
+                          onClick={() => setConfigs(configs.filter((_, j) => j !== i))}
+                          disabled={configs.length === 1}
+                          className="text-red-600 hover:text-red-900 dark:hover:text-red-400 disabled:opacity-30"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="flex justify-between mt-3">
+              <button
+                onClick={() => setConfigs([...configs, { ...configs[configs.length - 1], name: `config ${configs.length + 1}` }])}
+                className="px-4 py-2 text-blue-600 hover:text-blue-800 flex items-center"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Configuration
+              </button>
+              <button
+                onClick={handleRun}
+                disabled={!selectedSet || running}
+                className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:opacity-50 flex items-center"
+              >
+                {running
+                  ? <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+                  : <Play className="h-4 w-4 mr-2" />}
+                {running ? 'Running...' : 'Run Evaluation'}
+              </button>
+            </div>
+          </div>
+        </div>
+
+        {/* Results Panel */}
+        {report && (
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow">
+            <div className="p-6">
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4">
+                Results for &quot;{report.set}&quot;
+              </h3>
+              <table className="min-w-full text-sm mb-6">
+                <thead>
+                  <tr className="text-left text-xs font-medium text-gray-500 dark:text-gray-300 uppercase">
+                    <th className="pr-6 pb-2">Configuration</th>
+                    <th className="pr-6 pb-2">Recall@k</th>
+                    <th className="pr-6 pb-2">MRR</th>
+                    <th className="pb-2">nDCG@k</th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-900 dark:text-white">
+                  {report.results.map((result, i) => (
+                    <tr
+                      key={i}
+                      onClick={() => setDetailConfig(i)}
+                      className={`cursor-pointer ${i === detailConfig ? 'bg-blue-50 dark:bg-blue-900/30' : 'hover:bg-gray-50 dark:hover:bg-gray-700'}`}
+                    >
+                      <td className="pr-6 py-2">{result.config.name} (k={result.config.topK})</td>
+                      <td className="pr-6 py-2">{percent(result.metrics.recall)}</td>
+                      <td className="pr-6 py-2">{result.metrics.mrr.toFixed(3)}</td>
+                      <td className="py-2">{result.metrics.ndcg.toFixed(3)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+
+              {detail && (
+                <div className="space-y-3">
+                  <h4 className="text-sm font-semibold text-gray-900 dark:text-white">
+                    Questions under {detail.config.name}
+                  </h4>
+                  {detail.questions.map((question) => (
+                    <div key={question.id} className="border border-gray-200 dark:border-gray-700 rounded-lg p-3">
+                      <div className="flex justify-between text-sm">
+                        <p className="font-medium text-gray-900 dark:text-white">{question.question}</p>
+                        <p className="text-gray-500 dark:text-gray-400 whitespace-nowrap ml-4">
+                          recall {percent(question.recall)} · RR {question.reciprocalRank.toFixed(2)}
+                        </p>
+                      </div>
+                      <ol className="list-decimal list-inside text-xs mt-2 space-y-0.5">
+                        {question.retrieved.map((hit) => (
+                          <li
+                            key={hit.chunkId}
+                            className={hit.relevant ? 'text-green-700 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}
+                          >
+                            {hit.title}
+                          </li>
+                        ))}
+                      </ol>
+                      {question.missed.length > 0 && (
+                        <p className="text-xs text-orange-600 dark:text-orange-400 mt-2">
+                          Not retrieved: {question.missed.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { DEFAULT_COLLECTION } from '@/utils/collections';
+import { deleteCollection, listCollections } from '@/utils/vectorSearch';
+
+/** Delete a collection together with all of its documents. */
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ name: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { name } = await context.params;
+
+    if (name === DEFAULT_COLLECTION) {
+      return NextResponse.json(
+        { error: 'The default collection cannot be deleted' },
+        { status: 400 }
+      );
+    }
+    if (!(await listCollections()).some(collection => collection.name === name)) {
+      return NextResponse.json(
+        { error: 'Collection not found' },
+        { status: 404 }
+      );
+    }
+
+    const documentsRemoved = await deleteCollection(name);
+
+    return NextResponse.json({
+      success: true,
+      documentsRemoved,
+      message: `Collection "${name}" and ${documentsRemoved} documents deleted`,
+    });
+  } catch (error) {
+    console.error('Error deleting collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete collection' },
+      { status: 500 }
+    );
+  }
+}
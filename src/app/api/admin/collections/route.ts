@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { parseCollectionName } from '@/utils/collections';
+import { createCollection, listCollections } from '@/utils/vectorSearch';
+
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      collections: await listCollections(),
+    });
+  } catch (error) {
+    console.error('Error fetching collections:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch collections' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function POST(req: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { name: rawName, description } = await req.json().catch(() => ({}));
+    const name = parseCollectionName(rawName);
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Collection names are 1-50 letters, digits, spaces, dashes or underscores' },
+        { status: 400 }
+      );
+    }
+
+    if ((await listCollections()).some(collection => collection.name === name)) {
+      return NextResponse.json(
+        { error: `Collection "${name}" already exists` },
+        { status: 409 }
+      );
+    }
+
+    const collection = await createCollection(
+      name,
+      typeof description === 'string' ? description : undefined
+    );
+
+    return NextResponse.json({
+      success: true,
+      collection,
+      message: `Collection "${name}" created`,
+    });
+  } catch (error) {
+    console.error('Error creating collection:', error);
+    return NextResponse.json(
+      { error: 'Failed to create collection' },
+      { status: 500 }
+    );
+  }
+}
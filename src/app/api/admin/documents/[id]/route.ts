@@ -1,6 +1,43 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { getDocumentStore } from '@/utils/vectorSearch';
+import { deleteDocument, getDocument } from '@/utils/vectorSearch';
+
+export async function GET(
+  req: NextRequest,
+  context: { params: Promise<{ id: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const params = await context.params;
+    const found = await getDocument(params.id);
+    if (!found) {
+      return NextResponse.json(
+        { error: 'Document not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      document: found.document,
+      chunks: found.chunks,
+    });
+  } catch (error) {
+    console.error('Error fetching document:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch document' },
+      { status: 500 }
+    );
+  }
+}
 
 export async function DELETE(
   req: NextRequest,
@@ -19,21 +56,14 @@ export async function DELETE(
     const params = await context.params;
     const documentId = params.id;
     
-    // Get the current document store
-    const documents = getDocumentStore();
-    
-    // Find and remove the document
-    const documentIndex = documents.findIndex(doc => doc.id === documentId);
-    
-    if (documentIndex === -1) {
+    // Remove the document and all of its chunks through the store so the deletion is persisted
+    if (!(await deleteDocument(documentId))) {
       return NextResponse.json(
         { error: 'Document not found' },
         { status: 404 }
       );
     }
 
-    documents.splice(documentIndex, 1);
-
     return NextResponse.json({
       success: true,
       message: 'Document deleted successfully',
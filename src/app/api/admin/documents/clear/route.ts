@@ -14,7 +14,7 @@ export async function POST() {
     }
 
     // Clear all documents from the vector store
-    clearDocumentStore();
+    await clearDocumentStore();
 
     return NextResponse.json({
       success: true,
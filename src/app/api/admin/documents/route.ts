@@ -1,6 +1,6 @@
 import { NextResponse } from 'next/server';
 import { getServerSession } from 'next-auth';
-import { getDocumentStore } from '@/utils/vectorSearch';
+import { listDocuments } from '@/utils/vectorSearch';
 
 export async function GET() {
   try {
@@ -13,13 +13,14 @@ export async function GET() {
       );
     }
 
-    // Get all documents from the vector store
-    const documents = getDocumentStore();
+    // Get all documents from the vector store, without their chunks
+    const documents = await listDocuments();
 
     return NextResponse.json({
       success: true,
       documents: documents,
       count: documents.length,
+      chunkCount: documents.reduce((sum, document) => sum + document.chunkIds.length, 0),
     });
   } catch (error) {
     console.error('Error fetching documents:', error);
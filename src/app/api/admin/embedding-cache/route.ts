@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { clearEmbeddingCache, getEmbeddingCacheStats } from '@/utils/embeddings';
+
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      stats: await getEmbeddingCacheStats(),
+    });
+  } catch (error) {
+    console.error('Error fetching embedding cache stats:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch embedding cache stats' },
+      { status: 500 }
+    );
+  }
+}
+
+export async function DELETE() {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    await clearEmbeddingCache();
+
+    return NextResponse.json({
+      success: true,
+      message: 'Embedding cache cleared successfully',
+    });
+  } catch (error) {
+    console.error('Error clearing embedding cache:', error);
+    return NextResponse.json(
+      { error: 'Failed to clear embedding cache' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { EvalConfig, evaluateRetrieval, getGoldenSet, parseEvalConfigs } from '@/utils/retrievalEval';
+
+/**
+ * Score a stored golden set against the knowledge base. The body names the
+ * `set` and lists `configs` of `{ name, topK, search }` to compare.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { set: name, configs: rawConfigs } = await req.json().catch(() => ({}));
+    const set = typeof name === 'string' ? await getGoldenSet(name) : undefined;
+    if (!set) {
+      return NextResponse.json(
+        { error: 'Golden set not found' },
+        { status: 404 }
+      );
+    }
+
+    let configs: EvalConfig[];
+    try {
+      configs = parseEvalConfigs(rawConfigs);
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid configuration' },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      report: await evaluateRetrieval(set, configs),
+    });
+  } catch (error) {
+    console.error('Error evaluating retrieval:', error);
+    return NextResponse.json(
+      { error: 'Failed to evaluate retrieval' },
+      { status: 500 }
+    );
+  }
+}
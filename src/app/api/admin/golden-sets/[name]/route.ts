@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { deleteGoldenSet } from '@/utils/retrievalEval';
+
+export async function DELETE(
+  req: NextRequest,
+  context: { params: Promise<{ name: string }> }
+) {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    // Route params arrive already decoded
+    const { name } = await context.params;
+
+    if (!(await deleteGoldenSet(name))) {
+      return NextResponse.json(
+        { error: 'Golden set not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Golden set "${name}" deleted`,
+    });
+  } catch (error) {
+    console.error('Error deleting golden set:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete golden set' },
+      { status: 500 }
+    );
+  }
+}
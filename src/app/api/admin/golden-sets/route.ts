@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { GoldenSet, listGoldenSets, parseGoldenSet, saveGoldenSet } from '@/utils/retrievalEval';
+
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      sets: await listGoldenSets(),
+    });
+  } catch (error) {
+    console.error('Error fetching golden sets:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch golden sets' },
+      { status: 500 }
+    );
+  }
+}
+
+/** Create a golden set, or replace the one with the same name. */
+export async function POST(req: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    let set: GoldenSet;
+    try {
+      set = parseGoldenSet(await req.json().catch(() => null));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid golden set' },
+        { status: 400 }
+      );
+    }
+
+    await saveGoldenSet(set);
+
+    return NextResponse.json({
+      success: true,
+      set,
+      message: `Golden set "${set.name}" saved with ${set.questions.length} questions`,
+    });
+  } catch (error) {
+    console.error('Error saving golden set:', error);
+    return NextResponse.json(
+      { error: 'Failed to save golden set' },
+      { status: 500 }
+    );
+  }
+}
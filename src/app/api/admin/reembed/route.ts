@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { getEmbeddingProvider } from '@/utils/embeddingProviders';
+import {
+  cancelReembedJob,
+  getReembedJob,
+  rollbackBlockedReason,
+  rollbackReembedJob,
+  startReembedJob,
+} from '@/utils/reembedJob';
+import { getDocumentStats } from '@/utils/vectorSearch';
+
+export async function GET() {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const stats = await getDocumentStats();
+    const job = await getReembedJob();
+
+    return NextResponse.json({
+      success: true,
+      currentModel: getEmbeddingProvider().name,
+      storedModels: stats.embeddingModels,
+      job,
+      rollbackBlockedReason: job?.canRollback ? rollbackBlockedReason(job) : undefined,
+    });
+  } catch (error) {
+    console.error('Error fetching re-embedding status:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch re-embedding status' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Controls the re-embedding job. The body's `action` is `start` (default),
+ * `cancel` or `rollback`.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const { action = 'start' } = await req.json().catch(() => ({}));
+
+    switch (action) {
+      case 'start':
+        if ((await getReembedJob())?.status === 'running') {
+          return NextResponse.json(
+            { error: 'A re-embedding job is already running' },
+            { status: 409 }
+          );
+        }
+        return NextResponse.json({ success: true, job: startReembedJob() });
+
+      case 'cancel':
+        if (!cancelReembedJob()) {
+          return NextResponse.json(
+            { error: 'No re-embedding job is running' },
+            { status: 409 }
+          );
+        }
+        return NextResponse.json({ success: true, job: await getReembedJob() });
+
+      case 'rollback': {
+        const job = await getReembedJob();
+        if (!job?.canRollback) {
+          return NextResponse.json(
+            { error: 'There is no completed re-embedding job to roll back' },
+            { status: 409 }
+          );
+        }
+        const blocked = rollbackBlockedReason(job);
+        if (blocked) {
+          return NextResponse.json(
+            { error: blocked },
+            { status: 409 }
+          );
+        }
+        const restored = await rollbackReembedJob();
+        return NextResponse.json({
+          success: true,
+          job: await getReembedJob(),
+          message: `Restored the previous embeddings of ${restored} chunks`,
+        });
+      }
+
+      default:
+        return NextResponse.json(
+          { error: `Unknown action: ${action}` },
+          { status: 400 }
+        );
+    }
+  } catch (error) {
+    console.error('Error controlling re-embedding job:', error);
+    return NextResponse.json(
+      { error: 'Failed to control re-embedding job' },
+      { status: 500 }
+    );
+  }
+}
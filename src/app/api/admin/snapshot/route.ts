@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getServerSession } from 'next-auth';
+import { exportSnapshot, importSnapshot, parseSnapshot, Snapshot } from '@/utils/snapshot';
+
+/** Download the knowledge base as a snapshot; `?files=true` includes the original uploads. */
+export async function GET(req: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const includeFiles = req.nextUrl.searchParams.get('files') === 'true';
+    const snapshot = await exportSnapshot({ includeFiles });
+    const date = new Date().toISOString().slice(0, 10);
+
+    return new NextResponse(snapshot, {
+      headers: {
+        'Content-Type': 'application/gzip',
+        'Content-Disposition': `attachment; filename="knowledge-base-${date}.jsonl.gz"`,
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to export knowledge base' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Import a snapshot uploaded as the `snapshot` form field. `mode` is `merge`
+ * (default) or `replace`; `files=true` also restores the original uploads.
+ */
+export async function POST(req: NextRequest) {
+  try {
+    // Check authentication
+    const session = await getServerSession();
+    if (!session || session.user?.email !== process.env.ADMIN_EMAIL) {
+      return NextResponse.json(
+        { error: 'Unauthorized' },
+        { status: 401 }
+      );
+    }
+
+    const formData = await req.formData();
+    const file = formData.get('snapshot') as File | null;
+    const mode = formData.get('mode') ?? 'merge';
+    const includeFiles = formData.get('files') === 'true';
+
+    if (!file) {
+      return NextResponse.json(
+        { error: 'No snapshot uploaded' },
+        { status: 400 }
+      );
+    }
+    if (mode !== 'merge' && mode !== 'replace') {
+      return NextResponse.json(
+        { error: `Unknown import mode: ${mode}` },
+        { status: 400 }
+      );
+    }
+
+    let snapshot: Snapshot;
+    try {
+      snapshot = await parseSnapshot(Buffer.from(await file.arrayBuffer()));
+    } catch (error) {
+      return NextResponse.json(
+        { error: error instanceof Error ? error.message : 'Invalid snapshot' },
+        { status: 400 }
+      );
+    }
+
+    const result = await importSnapshot(snapshot, { mode, includeFiles });
+
+    return NextResponse.json({
+      success: true,
+      result,
+      message: mode === 'replace'
+        ? `Knowledge base replaced with ${result.documentsAdded} documents from the snapshot`
+        : `Imported ${result.documentsAdded} new and ${result.documentsUpdated} updated documents; ${result.documentsSkipped} skipped`,
+    });
+  } catch (error) {
+    console.error('Error importing snapshot:', error);
+    return NextResponse.json(
+      { error: 'Failed to import knowledge base' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,11 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { openai } from '@ai-sdk/openai';
 import { generateText } from 'ai';
-import { searchSimilarDocuments } from '@/utils/vectorSearch';
+import { parseSearchOptions, searchWithQueries, selectResults, type SearchResult } from '@/utils/vectorSearch';
+import { getReranker } from '@/utils/reranker';
+import { getQueryRewriter } from '@/utils/queryRewriter';
+import { expandContext } from '@/utils/contextExpansion';
+import { expandQuery, getDefaultRetrievalMode, parseRetrievalMode } from '@/utils/queryExpansion';
+
+// Retrieve a wide candidate set, then keep only the best few after reranking
+const RERANK_CANDIDATES = Number(process.env.RERANK_CANDIDATES) || 30;
+const CONTEXT_CHUNKS = 3;
+// Requests may widen context expansion, but only this far
+const MAX_CONTEXT_NEIGHBORS = 5;
 
 export async function POST(req: NextRequest) {
   try {
-    const { message, messageHistory } = await req.json();
+    const { message, messageHistory, search, retrievalMode: requestedMode, contextNeighbors } = await req.json();
 
     if (!message || typeof message !== 'string') {
       return NextResponse.json(
@@ -22,20 +32,71 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Search for relevant documents
-    const relevantDocs = await searchSimilarDocuments(message, 3);
+    // Follow-ups like "what about the 12V version?" are rewritten into a
+    // standalone query so retrieval knows what they refer to
+    const history = Array.isArray(messageHistory) ? messageHistory : [];
+    const rewriter = getQueryRewriter();
+    const searchQuery = rewriter ? await rewriter.rewrite(message, history) : message;
+
+    // Vague questions can also be searched as paraphrases or a hypothetical answer
+    const retrievalMode = parseRetrievalMode(requestedMode) ?? getDefaultRetrievalMode();
+    const queries = await expandQuery(searchQuery, retrievalMode);
+
+    // Search for relevant documents, optionally with per-request retrieval weights.
+    // Chunks below the similarity threshold are already dropped by the search.
+    const reranker = getReranker();
+    const searchOptions = parseSearchOptions(search);
+    // Fetch a wider candidate set; diversity is applied once the final context is picked
+    const candidates = await searchWithQueries(
+      queries,
+      RERANK_CANDIDATES,
+      { ...searchOptions, diversity: 'none' }
+    );
+    const ranked: (SearchResult & { rerankScore?: number })[] = reranker
+      ? await reranker.rerank(searchQuery, candidates)
+      : candidates;
+    const selected = selectResults(
+      ranked,
+      CONTEXT_CHUNKS,
+      searchOptions,
+      result => result.rerankScore ?? result.similarity ?? 0
+    );
+    const relevantDocs = selected.map(result => result.chunk);
+
+    // Pull in the chunks around each hit, within the context size budget
+    const passages = await expandContext(relevantDocs, {
+      neighbors: typeof contextNeighbors === 'number' && contextNeighbors >= 0
+        ? Math.min(contextNeighbors, MAX_CONTEXT_NEIGHBORS)
+        : undefined,
+    });
+    // Hits that did not fit in the budget are not cited
+    const usedHits = new Set(passages.flatMap(passage => passage.hits.map(hit => hit.id)));
+    const cited = selected.filter(result => usedHits.has(result.chunk.id));
     
     // Build context from relevant documents
     let contextText = '';
-    if (relevantDocs.length > 0) {
+    if (passages.length > 0) {
       contextText = '\n\nRelevant context from uploaded documents and videos:\n';
-      relevantDocs.forEach((doc, index) => {
-        contextText += `\n--- Context ${index + 1} (${doc.metadata.type === 'youtube' ? 'YouTube Video' : 'Document'}) ---\n`;
-        contextText += `Source: ${doc.metadata.title || doc.metadata.source}\n`;
+      passages.forEach(({ hits: [doc], chunks, content }, index) => {
+        const { language } = doc.metadata;
+        contextText += `\n--- Context ${index + 1} (${doc.metadata.type === 'youtube' ? 'YouTube Video' : language ? 'Source Code' : 'Document'}) ---\n`;
+        if (language) {
+          // The passage spans every chunk it merged, not just the hit
+          const startLine = Math.min(...chunks.map(chunk => chunk.metadata.startLine ?? Infinity));
+          const endLine = Math.max(...chunks.map(chunk => chunk.metadata.endLine ?? 0));
+          contextText += `Source: ${doc.metadata.filePath || doc.metadata.title || doc.metadata.source}, lines ${startLine}-${endLine}\n`;
+        } else {
+          contextText += `Source: ${doc.metadata.title || doc.metadata.source}${doc.metadata.pageNumber ? `, page ${doc.metadata.pageNumber}` : ''}\n`;
+        }
+        if (doc.metadata.section) {
+          contextText += `Section: ${doc.metadata.section}\n`;
+        }
         if (doc.metadata.url) {
           contextText += `URL: ${doc.metadata.url}\n`;
         }
-        contextText += `Content: ${doc.content}\n`;
+        contextText += language
+          ? `Content:\n\`\`\`${language}\n${content}\n\`\`\`\n`
+          : `Content: ${content}\n`;
       });
     }
 
@@ -64,7 +125,7 @@ export async function POST(req: NextRequest) {
 
 Provide clear, practical, and actionable advice. If you're unsure about something, suggest resources or recommend consulting with specialists. Focus on being helpful while prioritizing safety in all recommendations.
 
-${contextText ? `Use the provided context to enhance your answer when relevant. If the context contains information that directly relates to the user's question, incorporate it into your response. When you reference information from the context, mention the source (e.g., "According to the document [title]" or "As mentioned in the YouTube video [title]"). Always prioritize accuracy and cite when you're using information from the provided context.` : ''}
+${contextText ? `Use the provided context to enhance your answer when relevant. If the context contains information that directly relates to the user's question, incorporate it into your response. When you reference information from the context, mention the source (e.g., "According to the document [title]", "As mentioned in the YouTube video [title]" or "In [file path], lines [start]-[end]" for source code). Always prioritize accuracy and cite when you're using information from the provided context.` : ''}
 
 ${conversationHistory ? `Consider the conversation history to provide contextually relevant responses. You can reference previous questions or build upon earlier discussions, but focus primarily on the current message.` : ''}`;
 
@@ -77,14 +138,26 @@ ${conversationHistory ? `Consider the conversation history to provide contextual
 
     return NextResponse.json({ 
       response: result.text,
-      hasContext: relevantDocs.length > 0,
-      contextSources: relevantDocs.map(doc => ({
+      hasContext: cited.length > 0,
+      contextSources: cited.map(({ chunk: doc, similarity, rerankScore }) => ({
         type: doc.metadata.type,
         source: doc.metadata.source,
         title: doc.metadata.title,
         url: doc.metadata.url,
-        chunkIndex: doc.metadata.chunkIndex
-      }))
+        chunkIndex: doc.metadata.chunkIndex,
+        pageNumber: doc.metadata.pageNumber,
+        section: doc.metadata.section,
+        filePath: doc.metadata.filePath,
+        language: doc.metadata.language,
+        startLine: doc.metadata.startLine,
+        endLine: doc.metadata.endLine,
+        score: similarity,
+        rerankScore
+      })),
+      reranker: reranker?.name ?? 'none',
+      searchQuery,
+      retrievalMode,
+      retrievalQueries: queries
     });
   } catch (error) {
     console.error('Error in chat API:', error);
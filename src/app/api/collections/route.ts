@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { listCollections } from '@/utils/vectorSearch';
+
+/** The collections a chat user can choose to search. */
+export async function GET() {
+  try {
+    const collections = await listCollections();
+
+    return NextResponse.json({
+      success: true,
+      collections: collections.map(({ name, description, documents }) => ({ name, description, documents })),
+    });
+  } catch (error) {
+    console.error('Error fetching collections:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch collections' },
+      { status: 500 }
+    );
+  }
+}
@@ -42,6 +42,29 @@ export async function GET(
       case '.docx':
         contentType = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
         break;
+      case '.md':
+      case '.markdown':
+        contentType = 'text/markdown';
+        break;
+      case '.csv':
+        contentType = 'text/csv';
+        break;
+      case '.json':
+        contentType = 'application/json';
+        break;
+      case '.ino':
+      case '.c':
+      case '.cpp':
+      case '.cc':
+      case '.h':
+      case '.hpp':
+      case '.py':
+      case '.launch':
+      case '.yaml':
+      case '.yml':
+        contentType = 'text/plain';
+        break;
+      // HTML stays a download; serving it as text/html would run its scripts on this site
     }
     
     return new NextResponse(fileBuffer, {
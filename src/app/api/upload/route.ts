@@ -1,13 +1,27 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { writeFile } from 'fs/promises';
-import path from 'path';
 import { v4 as uuidv4 } from 'uuid';
-import { addDocument } from '@/utils/vectorSearch';
+import { detectFormat, ExtractedText, extractText, SUPPORTED_EXTENSIONS } from '@/utils/documentExtractors';
+import { removeUploadedFiles, saveUploadedFile } from '@/utils/uploads';
+import {
+  addDocument,
+  AddDocumentResult,
+  findDocumentByChecksum,
+  getDocument,
+  hashContent,
+  resolveCollection,
+} from '@/utils/vectorSearch';
+import { parseTagList } from '@/utils/searchFilters';
 
 export async function POST(req: NextRequest) {
   try {
     const formData = await req.formData();
     const file = formData.get('file') as File;
+    const tags = parseTagList(String(formData.get('tags') ?? ''));
+    // Swap out an earlier upload with the same file name instead of keeping both
+    const replaceExisting = formData.get('replace') === 'true';
+    const requestedCollection = formData.get('collection');
+    // Where a source file lives in its project, e.g. "firmware/src/drive.cpp"
+    const filePath = String(formData.get('path') ?? '').trim();
 
     if (!file) {
       return NextResponse.json(
@@ -16,63 +30,117 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Validate file type
-    const allowedTypes = ['application/pdf', 'text/plain', 'application/msword', 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'];
-    if (!allowedTypes.includes(file.type)) {
+    const collection = await resolveCollection(requestedCollection);
+    if (!collection) {
       return NextResponse.json(
-        { error: 'Invalid file type. Only PDF, TXT, DOC, and DOCX files are allowed.' },
+        { error: `Unknown collection: ${requestedCollection}` },
         { status: 400 }
       );
     }
 
-    // Generate unique filename
-    const fileId = uuidv4();
-    const extension = path.extname(file.name);
-    const filename = `${fileId}${extension}`;
+    // Validate file type
+    const format = detectFormat(file.name, file.type);
+    if (!format) {
+      return NextResponse.json(
+        { error: `Invalid file type. Only ${SUPPORTED_EXTENSIONS.join(', ')} files are allowed.` },
+        { status: 400 }
+      );
+    }
 
-    // Save file
     const bytes = await file.arrayBuffer();
     const buffer = Buffer.from(bytes);
-    
-    // Create uploads directory if it doesn't exist
-    const uploadsDir = path.join(process.cwd(), 'uploads');
-    try {
-      await writeFile(path.join(uploadsDir, filename), buffer);
-    } catch {
-      // If directory doesn't exist, create it
-      const { mkdir } = await import('fs/promises');
-      await mkdir(uploadsDir, { recursive: true });
-      await writeFile(path.join(uploadsDir, filename), buffer);
+
+    // Uploading the same file again is a no-op, unless it is meant to replace the stored one
+    const checksum = hashContent(buffer);
+    const existing = replaceExisting ? undefined : await findDocumentByChecksum(checksum, collection);
+    if (existing) {
+      return NextResponse.json({
+        success: true,
+        duplicate: true,
+        fileId: existing.file?.id,
+        documentId: existing.id,
+        filename: file.name,
+        size: file.size,
+        type: file.type,
+        chunksAdded: 0,
+        chunksFailed: 0,
+        message: `"${existing.title}" is already in the knowledge base`,
+      });
     }
 
     // Extract text content from the file
-    let textContent = '';
-    
-    if (file.type === 'text/plain') {
-      textContent = buffer.toString('utf-8');
-    } else if (file.type === 'application/pdf') {
-      // For PDF files, you'd need to use a PDF parser like pdf-parse
-      // For now, we'll just use a placeholder
-      textContent = `PDF document: ${file.name}. Content extraction not implemented in this demo.`;
-    } else {
-      textContent = `Document: ${file.name}. Content extraction for this file type not implemented in this demo.`;
+    let extracted: ExtractedText;
+    try {
+      extracted = await extractText(buffer, format, filePath || file.name);
+    } catch (error) {
+      console.error('Error extracting text:', error);
+      return NextResponse.json(
+        { error: `Could not read "${file.name}". The file may be damaged or password-protected.` },
+        { status: 400 }
+      );
+    }
+    if (extracted.characters === 0) {
+      return NextResponse.json(
+        {
+          error: format === 'pdf'
+            ? `No text found in "${file.name}". Scanned PDFs need to be run through OCR before uploading.`
+            : `No text found in "${file.name}".`,
+        },
+        { status: 422 }
+      );
     }
 
+    // Save the original so chunks can link to it for download
+    const fileId = uuidv4();
+    const upload = { id: fileId, name: file.name, mimeType: file.type, size: file.size };
+    await saveUploadedFile(upload, buffer);
+
     // Add to vector search index
-    await addDocument(textContent, {
-      source: fileId,
-      type: 'document',
-      title: file.name,
-      url: `/api/files/${fileId}`, // For document download
-    });
+    let ingestion: AddDocumentResult;
+    try {
+      ingestion = await addDocument(extracted.sections, {
+        source: fileId,
+        type: 'document',
+        title: file.name,
+        url: `/api/files/${fileId}`, // For document download
+        tags: tags.length > 0 ? tags : undefined,
+        collection,
+      }, {
+        file: { ...upload, checksum },
+        replaceExisting,
+        // Replacing with identical content re-splits it, e.g. after chunk settings changed
+        reingest: replaceExisting,
+        split: extracted.split,
+      });
+    } catch (error) {
+      await removeUploadedFiles([upload]);
+      throw error;
+    }
+    // The same text was stored from another file, which keeps its own upload
+    if (ingestion.duplicate) {
+      await removeUploadedFiles([upload]);
+    }
 
     return NextResponse.json({
       success: true,
-      fileId,
+      fileId: ingestion.duplicate ? (await getDocument(ingestion.documentId))?.document.file?.id : fileId,
+      documentId: ingestion.documentId,
       filename: file.name,
       size: file.size,
       type: file.type,
-      message: 'Document processed and added to knowledge base',
+      pages: extracted.pages,
+      characters: extracted.characters,
+      chunksAdded: ingestion.chunksAdded,
+      chunksFailed: ingestion.chunksFailed,
+      duplicate: ingestion.duplicate,
+      replaced: ingestion.replacedDocumentIds.length > 0,
+      message: ingestion.duplicate
+        ? 'This content is already in the knowledge base'
+        : ingestion.chunksFailed > 0
+          ? `Document partially processed: ${ingestion.chunksFailed} chunks could not be embedded`
+          : ingestion.replacedDocumentIds.length > 0
+            ? 'Document replaced the previous version in the knowledge base'
+            : 'Document processed and added to knowledge base',
     });
   } catch (error) {
     console.error('Error in upload API:', error);
@@ -2,13 +2,13 @@ import { NextRequest, NextResponse } from 'next/server';
 import OpenAI from 'openai';
 import { openai } from '@ai-sdk/openai';
 import { generateText } from 'ai';
-import { searchSimilarDocuments } from '@/utils/vectorSearch';
+import { parseSearchOptions, searchSimilarDocuments } from '@/utils/vectorSearch';
 import { writeFile } from 'fs/promises';
 import path from 'path';
 
 export async function POST(req: NextRequest) {
   try {
-    const { message, messageHistory } = await req.json();
+    const { message, messageHistory, search } = await req.json();
 
     if (!message || typeof message !== 'string') {
       return NextResponse.json(
@@ -25,8 +25,9 @@ export async function POST(req: NextRequest) {
       );
     }
 
-    // Search for relevant documents
-    const relevantDocs = await searchSimilarDocuments(message, 3);
+    // Search for relevant documents, optionally with per-request retrieval weights
+    const relevantResults = await searchSimilarDocuments(message, 3, parseSearchOptions(search));
+    const relevantDocs = relevantResults.map(result => result.chunk);
     
     // Build context from relevant documents
     let contextText = '';
@@ -107,10 +108,11 @@ ${conversationHistory ? `Consider the conversation history to provide contextual
       response: result.text,
       audioUrl: `/audio/${audioFilename}`,
       hasContext: relevantDocs.length > 0,
-      contextSources: relevantDocs.map(doc => ({
+      contextSources: relevantResults.map(({ chunk: doc, similarity }) => ({
         type: doc.metadata.type,
         source: doc.metadata.source,
-        title: doc.metadata.title
+        title: doc.metadata.title,
+        score: similarity
       }))
     });
   } catch (error) {
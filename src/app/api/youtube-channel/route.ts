@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { google } from 'googleapis';
-import { addDocument } from '@/utils/vectorSearch';
+import { addDocument, findVideoDocuments, getDocument, resolveCollection } from '@/utils/vectorSearch';
 import { writeFile, unlink } from 'fs/promises';
 import { join } from 'path';
 import ytdl from '@distube/ytdl-core';
@@ -29,6 +29,7 @@ interface ChannelProcessingResult {
     title: string;
     status: 'success' | 'whisper_failed' | 'error';
     chunks?: number;
+    failedChunks?: number;
     error?: string;
   }>;
 }
@@ -280,7 +281,7 @@ function formatNumber(num?: string): string {
 
 export async function POST(request: NextRequest) {
   try {
-    const { channelInput, apiKey, maxVideos = 50, skipExisting = true } = await request.json();
+    const { channelInput, apiKey, maxVideos = 50, skipExisting = true, collection: requestedCollection } = await request.json();
 
     if (!channelInput) {
       return NextResponse.json(
@@ -289,6 +290,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const collection = await resolveCollection(requestedCollection);
+    if (!collection) {
+      return NextResponse.json(
+        { error: `Unknown collection: ${requestedCollection}` },
+        { status: 400 }
+      );
+    }
+
     // Validate OpenAI API key for Whisper transcription
     if (!process.env.OPENAI_API_KEY) {
       return NextResponse.json(
@@ -344,22 +353,20 @@ export async function POST(request: NextRequest) {
       try {
         // Check if video already exists if skipExisting is true
         if (skipExisting) {
-          const { getDocumentStore } = await import('@/utils/vectorSearch');
-          const existingDocs = getDocumentStore().filter(doc => 
-            doc.metadata.source.includes(video.videoId)
-          );
+          const existingDocs = await findVideoDocuments(video.videoId, collection);
           
           if (existingDocs.length > 0) {
+            const existingChunks = existingDocs.reduce((sum, doc) => sum + doc.chunkIds.length, 0);
             console.log(`Skipping ${video.title} - already processed`);
             result.processedVideos.push({
               videoId: video.videoId,
               title: video.title,
               status: 'success',
-              chunks: existingDocs.length
+              chunks: existingChunks
             });
             result.videosProcessed++;
             result.videosWithTranscripts++;
-            result.totalChunks += existingDocs.length;
+            result.totalChunks += existingChunks;
             continue;
           }
         }
@@ -394,24 +401,25 @@ export async function POST(request: NextRequest) {
         content += `\nTranscript (via Whisper AI):\n${transcript}`;
 
         // Add to vector store
-        await addDocument(content, {
+        const ingestion = await addDocument(content, {
           type: 'youtube',
           source: `https://www.youtube.com/watch?v=${video.videoId}`,
           url: `https://www.youtube.com/watch?v=${video.videoId}`,
           title: video.title,
-        });
+          collection,
+        }, { videoId: video.videoId, replaceExisting: true });
 
-        // Count chunks for this video
-        const { getDocumentStore } = await import('@/utils/vectorSearch');
-        const videoChunks = getDocumentStore().filter(doc => 
-          doc.metadata.source.includes(video.videoId)
-        ).length;
+        // Identical content is not stored twice; count the copy already there
+        const videoChunks = ingestion.duplicate
+          ? (await getDocument(ingestion.documentId))?.chunks.length ?? 0
+          : ingestion.chunksAdded;
 
         result.processedVideos.push({
           videoId: video.videoId,
           title: video.title,
           status: 'success',
-          chunks: videoChunks
+          chunks: videoChunks,
+          failedChunks: ingestion.chunksFailed || undefined
         });
 
         result.videosProcessed++;
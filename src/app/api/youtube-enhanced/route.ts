@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { YoutubeTranscript } from 'youtube-transcript';
 import { google } from 'googleapis';
-import { addDocument } from '@/utils/vectorSearch';
+import { addDocument, resolveCollection } from '@/utils/vectorSearch';
 
 interface YouTubeVideoDetails {
   title: string;
@@ -104,7 +104,7 @@ function formatNumber(num?: string): string {
 
 export async function POST(request: NextRequest) {
   try {
-    const { url, apiKey } = await request.json();
+    const { url, apiKey, collection: requestedCollection } = await request.json();
 
     if (!url) {
       return NextResponse.json(
@@ -121,6 +121,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const collection = await resolveCollection(requestedCollection);
+    if (!collection) {
+      return NextResponse.json(
+        { error: `Unknown collection: ${requestedCollection}` },
+        { status: 400 }
+      );
+    }
+
     let videoDetails: YouTubeVideoDetails | null = null;
     
     // Try to fetch video details if API key is provided or available in environment
@@ -166,19 +174,19 @@ export async function POST(request: NextRequest) {
     }
 
     // Add to vector store
-    const documentId = await addDocument(content, {
+    const { documentId, chunksAdded: totalDocuments, chunksFailed, duplicate, replacedDocumentIds } = await addDocument(content, {
       type: 'youtube',
       source: url,
       url: url,
       title: videoDetails?.title || `YouTube Video ${videoId}`,
-    });
-
-    // Count how many chunks were created by checking document store
-    const { totalDocuments } = await import('@/utils/vectorSearch').then(m => ({ totalDocuments: m.getDocumentStore().filter(doc => doc.metadata.source === url).length }));
+      collection,
+    }, { videoId, replaceExisting: true });
 
     return NextResponse.json({
       success: true,
-      message: `Successfully processed YouTube video and added ${totalDocuments} chunks to knowledge base`,
+      message: duplicate
+        ? 'This video is already in the knowledge base'
+        : `Successfully processed YouTube video and added ${totalDocuments} chunks to knowledge base`,
       videoDetails: videoDetails ? {
         title: videoDetails.title,
         channel: videoDetails.channelTitle,
@@ -188,6 +196,9 @@ export async function POST(request: NextRequest) {
         likes: formatNumber(videoDetails.likeCount)
       } : null,
       chunks: totalDocuments,
+      duplicate,
+      replaced: replacedDocumentIds.length > 0,
+      chunksFailed,
       videoId,
       documentId
     });
@@ -1,9 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { addDocument } from '@/utils/vectorSearch';
+import { addDocumentChunks, resolveCollection } from '@/utils/vectorSearch';
+import { splitText } from '@/utils/textSplitter';
 
 export async function POST(req: NextRequest) {
   try {
-    const { youtubeUrl, transcriptText, videoTitle } = await req.json();
+    const { youtubeUrl, transcriptText, videoTitle, collection: requestedCollection } = await req.json();
 
     if (!youtubeUrl || typeof youtubeUrl !== 'string') {
       return NextResponse.json(
@@ -19,6 +20,14 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const collection = await resolveCollection(requestedCollection);
+    if (!collection) {
+      return NextResponse.json(
+        { error: `Unknown collection: ${requestedCollection}` },
+        { status: 400 }
+      );
+    }
+
     // Extract video ID from URL
     const videoIdMatch = youtubeUrl.match(/(?:youtube\.com\/watch\?v=|youtu\.be\/|youtube\.com\/embed\/)([^&\n?#]+)/);
     if (!videoIdMatch) {
@@ -32,28 +41,31 @@ export async function POST(req: NextRequest) {
     const title = videoTitle || `YouTube Video: ${videoId}`;
 
     try {
-      // Process transcript into chunks (similar to LangChain approach)
-      const chunks = createSemanticChunks(transcriptText);
+      // Process transcript into overlapping chunks, dropping tiny fragments
+      const chunks = splitText(transcriptText, { minChunkSize: 50 });
       
-      // Add each chunk to vector search index
-      for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
-        await addDocument(chunk, {
-          source: videoId,
-          type: 'youtube',
-          title: title,
-          url: youtubeUrl,
-          chunkIndex: i,
-        });
-      }
+      // Embed all chunks in batches and add them to the vector search index
+      const ingestion = await addDocumentChunks(chunks, {
+        source: videoId,
+        type: 'youtube',
+        title: title,
+        url: youtubeUrl,
+        collection,
+      }, { videoId, replaceExisting: true });
 
       return NextResponse.json({
         success: true,
         videoId,
+        documentId: ingestion.documentId,
         title,
-        chunksProcessed: chunks.length,
+        chunksProcessed: ingestion.chunksAdded,
+        chunksFailed: ingestion.chunksFailed,
         totalLength: transcriptText.length,
-        message: `Manual YouTube transcript processed into ${chunks.length} chunks and added to knowledge base`,
+        duplicate: ingestion.duplicate,
+        replaced: ingestion.replacedDocumentIds.length > 0,
+        message: ingestion.duplicate
+          ? 'This transcript is already in the knowledge base'
+          : `Manual YouTube transcript processed into ${ingestion.chunksAdded} chunks and added to knowledge base`,
       });
 
     } catch (processingError) {
@@ -71,48 +83,3 @@ export async function POST(req: NextRequest) {
     );
   }
 }
-
-/**
- * Create semantic chunks from transcript text
- */
-function createSemanticChunks(text: string): string[] {
-  const chunks: string[] = [];
-  const maxChunkSize = 1000;
-  const overlap = 200;
-
-  // Split by sentences first
-  const sentences = text.split(/[.!?]+/).filter(s => s.trim().length > 0);
-  
-  let currentChunk = '';
-  
-  for (const sentence of sentences) {
-    const sentenceWithSpace = currentChunk ? ` ${sentence.trim()}` : sentence.trim();
-    
-    if (currentChunk.length + sentenceWithSpace.length > maxChunkSize && currentChunk) {
-      // Add current chunk
-      chunks.push(currentChunk.trim());
-      
-      // Start new chunk with overlap
-      const overlapText = getOverlapText(currentChunk, overlap);
-      currentChunk = overlapText + sentenceWithSpace;
-    } else {
-      currentChunk += sentenceWithSpace;
-    }
-  }
-
-  // Add final chunk
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
-  }
-
-  return chunks.filter(chunk => chunk.length > 50);
-}
-
-function getOverlapText(text: string, overlapSize: number): string {
-  if (text.length <= overlapSize) return text;
-  
-  const overlap = text.slice(-overlapSize);
-  const lastSpaceIndex = overlap.lastIndexOf(' ');
-  
-  return lastSpaceIndex > 0 ? overlap.slice(lastSpaceIndex + 1) : overlap;
-}
@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { google } from 'googleapis';
-import { addDocument } from '@/utils/vectorSearch';
+import { addDocument, findVideoDocuments, resolveCollection } from '@/utils/vectorSearch';
 import { writeFile, unlink, readFile } from 'fs/promises';
 import { join } from 'path';
 import ytdl from '@distube/ytdl-core';
@@ -200,7 +200,7 @@ function formatNumber(num?: string): string {
 
 export async function POST(request: NextRequest) {
   try {
-    const { url, apiKey } = await request.json();
+    const { url, apiKey, collection: requestedCollection } = await request.json();
 
     if (!url) {
       return NextResponse.json(
@@ -225,6 +225,14 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const collection = await resolveCollection(requestedCollection);
+    if (!collection) {
+      return NextResponse.json(
+        { error: `Unknown collection: ${requestedCollection}` },
+        { status: 400 }
+      );
+    }
+
     // Use provided API key or environment variable for YouTube Data API
     const youtubeApiKey = apiKey || process.env.YOUTUBE_API_KEY;
     
@@ -236,11 +244,8 @@ export async function POST(request: NextRequest) {
 
     console.log(`Processing video: ${videoDetails?.title || videoId}`);
 
-    // Check if video already exists in knowledge base
-    const { getDocumentStore } = await import('@/utils/vectorSearch');
-    const existingDocs = getDocumentStore().filter(doc => 
-      doc.metadata.source.includes(videoId)
-    );
+    // Check if video already exists in the target collection
+    const existingDocs = await findVideoDocuments(videoId, collection);
     
     if (existingDocs.length > 0) {
       return NextResponse.json({
@@ -248,7 +253,7 @@ export async function POST(request: NextRequest) {
         message: 'Video already processed',
         videoId,
         title: videoDetails?.title || 'Unknown',
-        chunks: existingDocs.length,
+        chunks: existingDocs.reduce((sum, doc) => sum + doc.chunkIds.length, 0),
         alreadyProcessed: true
       });
     }
@@ -300,12 +305,13 @@ export async function POST(request: NextRequest) {
     content += `\nTranscript (via Whisper AI):\n${transcriptText}`;
 
     // Add to vector store
-    await addDocument(content, {
+    const ingestion = await addDocument(content, {
       type: 'youtube',
       source: url,
       url: url,
       title: videoDetails?.title || `YouTube Video ${videoId}`,
-    });
+      collection,
+    }, { videoId, replaceExisting: true });
 
     // Store additional metadata in a comment for reference
     console.log('Video metadata:', {
@@ -318,10 +324,7 @@ export async function POST(request: NextRequest) {
       likeCount: videoDetails?.likeCount
     });
 
-    // Count chunks for this video
-    const videoChunks = getDocumentStore().filter(doc => 
-      doc.metadata.source.includes(videoId)
-    ).length;
+    const videoChunks = ingestion.chunksAdded;
 
     const result: WhisperProcessingResult = {
       videoId,
@@ -342,7 +345,9 @@ export async function POST(request: NextRequest) {
       success: true,
       message: `Successfully transcribed and processed YouTube video using Whisper AI`,
       ...result,
+      documentId: ingestion.documentId,
       transcriptLength: transcriptText.length,
+      chunksFailed: ingestion.chunksFailed,
       enhancedMetadata: !!videoDetails
     });
 
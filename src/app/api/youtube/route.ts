@@ -1,10 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { YouTubeTranscriptLoader } from '@/utils/youtubeLoader';
-import { addDocument } from '@/utils/vectorSearch';
+import { addDocumentChunks, resolveCollection } from '@/utils/vectorSearch';
 
 export async function POST(req: NextRequest) {
   try {
-    const { youtubeUrl } = await req.json();
+    const { youtubeUrl, collection: requestedCollection } = await req.json();
 
     if (!youtubeUrl || typeof youtubeUrl !== 'string') {
       return NextResponse.json(
@@ -13,6 +13,14 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    const collection = await resolveCollection(requestedCollection);
+    if (!collection) {
+      return NextResponse.json(
+        { error: `Unknown collection: ${requestedCollection}` },
+        { status: 400 }
+      );
+    }
+
     // Validate URL format
     try {
       new YouTubeTranscriptLoader(youtubeUrl);
@@ -31,26 +39,29 @@ export async function POST(req: NextRequest) {
       const result = await loader.load();
       console.log('Transcript loaded:', result.chunks.length, 'chunks');
 
-      // Add each chunk to vector search index with metadata
-      for (let i = 0; i < result.chunks.length; i++) {
-        const chunk = result.chunks[i];
-        await addDocument(chunk, {
-          source: result.metadata.id,
-          type: 'youtube',
-          title: result.metadata.title,
-          url: youtubeUrl,
-          chunkIndex: i,
-        });
-      }
+      // Embed all chunks in batches and add them to the vector search index
+      const ingestion = await addDocumentChunks(result.chunks, {
+        source: result.metadata.id,
+        type: 'youtube',
+        title: result.metadata.title,
+        url: youtubeUrl,
+        collection,
+      }, { videoId: result.metadata.id, replaceExisting: true });
 
       return NextResponse.json({
         success: true,
         videoId: result.metadata.id,
+        documentId: ingestion.documentId,
         title: result.metadata.title,
         author: result.metadata.author,
-        chunksProcessed: result.chunks.length,
+        chunksProcessed: ingestion.chunksAdded,
+        chunksFailed: ingestion.chunksFailed,
         totalLength: result.text.length,
-        message: `YouTube transcript processed into ${result.chunks.length} semantic chunks and added to knowledge base`,
+        duplicate: ingestion.duplicate,
+        replaced: ingestion.replacedDocumentIds.length > 0,
+        message: ingestion.duplicate
+          ? 'This transcript is already in the knowledge base'
+          : `YouTube transcript processed into ${ingestion.chunksAdded} semantic chunks and added to knowledge base`,
       });
 
     } catch (processingError) {
@@ -1,7 +1,8 @@
 'use client';
 
 import { useState, useEffect } from 'react';
-import { Send, Upload, Bot, User, Mic, MicOff, Settings, ExternalLink, FileText, VolumeX } from 'lucide-react';
+import { Send, Upload, Bot, User, Mic, MicOff, Settings, ExternalLink, FileText, FileCode, VolumeX, Filter } from 'lucide-react';
+import { parseTagList, SearchFilter } from '@/utils/searchFilters';
 
 interface Message {
   id: string;
@@ -14,9 +15,36 @@ interface Message {
     title?: string;
     url?: string;
     chunkIndex?: number;
+    pageNumber?: number;
+    filePath?: string; // Source code chunks: the file and the lines they span
+    language?: string;
+    startLine?: number;
+    endLine?: number;
+    score?: number; // Cosine similarity between the question and this source
+    rerankScore?: number;
   }[];
 }
 
+type Source = NonNullable<Message['sources']>[number];
+
+// Code is cited by file path and lines, documents by title and page
+const formatSourceLabel = (source: Source) => {
+  if (source.language && source.startLine !== undefined) {
+    const lines = source.endLine && source.endLine !== source.startLine
+      ? `lines ${source.startLine}–${source.endLine}`
+      : `line ${source.startLine}`;
+    return `${source.filePath || source.title || source.source}, ${lines}`;
+  }
+  return `${source.title || source.source}${source.pageNumber ? `, p. ${source.pageNumber}` : ''}`;
+};
+
+// Colour a source's similarity score by how well it grounds the answer
+const getConfidenceClass = (score: number) => {
+  if (score >= 0.5) return 'bg-green-100 text-green-800 dark:bg-green-900/40 dark:text-green-300';
+  if (score >= 0.4) return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/40 dark:text-yellow-300';
+  return 'bg-gray-200 text-gray-700 dark:bg-gray-600 dark:text-gray-200';
+};
+
 export default function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState('');
@@ -26,6 +54,14 @@ export default function ChatInterface() {
   const [isVoiceMode, setIsVoiceMode] = useState(false);
   const [currentAudio, setCurrentAudio] = useState<HTMLAudioElement | null>(null);
   const [isSpeaking, setIsSpeaking] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const [filterType, setFilterType] = useState<'all' | 'document' | 'youtube'>('all');
+  const [filterTitle, setFilterTitle] = useState('');
+  const [filterTags, setFilterTags] = useState('');
+  const [filterAddedAfter, setFilterAddedAfter] = useState('');
+  const [availableCollections, setAvailableCollections] = useState<{ name: string; description?: string; documents: number }[]>([]);
+  // Collections to consult; all of them when none are picked
+  const [filterCollections, setFilterCollections] = useState<string[]>([]);
 
   // Load messages from localStorage on component mount
   useEffect(() => {
@@ -33,6 +69,14 @@ export default function ChatInterface() {
     setMessages(storedMessages);
   }, []);
 
+  // Load the collections that can be searched
+  useEffect(() => {
+    fetch('/api/collections')
+      .then(response => response.json())
+      .then(data => setAvailableCollections(data.collections || []))
+      .catch(error => console.error('Error loading collections:', error));
+  }, []);
+
   // Save messages to localStorage whenever messages change
   useEffect(() => {
     if (messages.length > 0) {
@@ -91,6 +135,29 @@ export default function ChatInterface() {
     }));
   };
 
+  // Build the knowledge-base filter sent with chat requests
+  const buildSearchFilter = (): SearchFilter | undefined => {
+    const filter: SearchFilter = {};
+    if (filterCollections.length > 0) filter.collections = filterCollections;
+    if (filterType !== 'all') filter.types = [filterType];
+    if (filterTitle.trim()) filter.titleContains = filterTitle.trim();
+    const tags = parseTagList(filterTags);
+    if (tags.length > 0) filter.tags = tags;
+    if (filterAddedAfter) filter.addedAfter = new Date(filterAddedAfter).getTime();
+
+    return Object.keys(filter).length > 0 ? filter : undefined;
+  };
+
+  const clearFilters = () => {
+    setFilterCollections([]);
+    setFilterType('all');
+    setFilterTitle('');
+    setFilterTags('');
+    setFilterAddedAfter('');
+  };
+
+  const activeFilter = buildSearchFilter();
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!input.trim()) return;
@@ -117,7 +184,8 @@ export default function ChatInterface() {
         },
         body: JSON.stringify({ 
           message: input,
-          messageHistory: messageHistory 
+          messageHistory: messageHistory,
+          search: { filter: activeFilter }
         }),
       });
 
@@ -174,7 +242,7 @@ export default function ChatInterface() {
         const uploadMessage: Message = {
           id: Date.now().toString(),
           type: 'bot',
-          content: `📄 Document "${data.filename}" uploaded successfully! I can now use this information to answer your questions about robot building.`,
+          content: `📄 Document "${data.filename}"${data.pages ? ` (${data.pages} pages)` : ''} uploaded successfully! I can now use this information to answer your questions about robot building.`,
           timestamp: new Date(),
         };
         setMessages(prev => [...prev, uploadMessage]);
@@ -300,7 +368,8 @@ export default function ChatInterface() {
         },
         body: JSON.stringify({ 
           message: text,
-          messageHistory: messageHistory 
+          messageHistory: messageHistory,
+          search: { filter: activeFilter }
         }),
       });
 
@@ -318,6 +387,7 @@ export default function ChatInterface() {
         type: 'bot',
         content: botContent,
         timestamp: new Date(),
+        sources: data.contextSources || [],
       };
 
       setMessages(prev => [...prev, botMessage]);
@@ -416,6 +486,18 @@ export default function ChatInterface() {
             </div>
           </div>
           <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setShowFilters(!showFilters)}
+              className={`flex items-center px-3 py-1 rounded-full text-sm font-medium transition-colors ${
+                activeFilter
+                  ? 'bg-yellow-500 text-white'
+                  : 'bg-blue-500 text-white hover:bg-blue-400'
+              }`}
+              title="Filter which documents and videos are searched"
+            >
+              <Filter className="h-4 w-4 mr-1" />
+              {activeFilter ? 'Filtered' : 'Filter'}
+            </button>
             <button
               onClick={toggleVoiceMode}
               className={`px-3 py-1 rounded-full text-sm font-medium transition-colors ${
@@ -446,6 +528,87 @@ export default function ChatInterface() {
         </div>
       </div>
 
+      {/* Knowledge Base Filters */}
+      {showFilters && (
+        <div className="border-b dark:border-gray-700 bg-gray-50 dark:bg-gray-900 p-3">
+          <div className="flex flex-wrap items-end gap-3 text-sm">
+            {availableCollections.length > 1 && (
+              <div>
+                <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Collections</label>
+                <div className="flex flex-wrap gap-2">
+                  {availableCollections.map((collection) => (
+                    <label
+                      key={collection.name}
+                      title={collection.description}
+                      className="flex items-center px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+                    >
+                      <input
+                        type="checkbox"
+                        checked={filterCollections.includes(collection.name)}
+                        onChange={(e) => setFilterCollections(e.target.checked
+                          ? [...filterCollections, collection.name]
+                          : filterCollections.filter(name => name !== collection.name))}
+                        className="mr-1"
+                      />
+                      {collection.name}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Search in</label>
+              <select
+                value={filterType}
+                onChange={(e) => setFilterType(e.target.value as 'all' | 'document' | 'youtube')}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+              >
+                <option value="all">Everything</option>
+                <option value="document">Documents only</option>
+                <option value="youtube">Videos only</option>
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Title contains</label>
+              <input
+                type="text"
+                value={filterTitle}
+                onChange={(e) => setFilterTitle(e.target.value)}
+                placeholder="e.g. motor driver"
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Tags</label>
+              <input
+                type="text"
+                value={filterTags}
+                onChange={(e) => setFilterTags(e.target.value)}
+                placeholder="comma, separated"
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-500 dark:text-gray-400 mb-1">Added after</label>
+              <input
+                type="date"
+                value={filterAddedAfter}
+                onChange={(e) => setFilterAddedAfter(e.target.value)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg dark:bg-gray-700 dark:text-white"
+              />
+            </div>
+            <button
+              type="button"
+              onClick={clearFilters}
+              disabled={!activeFilter}
+              className="px-3 py-1 text-gray-600 dark:text-gray-300 border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-50"
+            >
+              Clear filters
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Messages Container */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
         {messages.map((message) => (
@@ -475,6 +638,8 @@ export default function ChatInterface() {
                           <div key={index} className="flex items-center gap-1 text-xs">
                             {source.type === 'youtube' ? (
                               <ExternalLink size={12} className="text-red-500" />
+                            ) : source.language ? (
+                              <FileCode size={12} className="text-purple-500" />
                             ) : (
                               <FileText size={12} className="text-blue-500" />
                             )}
@@ -485,12 +650,20 @@ export default function ChatInterface() {
                                 rel="noopener noreferrer"
                                 className="text-blue-500 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300 underline flex items-center gap-1"
                               >
-                                {source.title || source.source}
+                                <span className={source.language ? 'font-mono' : undefined}>{formatSourceLabel(source)}</span>
                                 <ExternalLink size={10} />
                               </a>
                             ) : (
-                              <span className="text-gray-600 dark:text-gray-400">
-                                {source.title || source.source}
+                              <span className={`text-gray-600 dark:text-gray-400 ${source.language ? 'font-mono' : ''}`}>
+                                {formatSourceLabel(source)}
+                              </span>
+                            )}
+                            {source.score !== undefined && (
+                              <span
+                                className={`px-1.5 rounded-full ${getConfidenceClass(source.score)}`}
+                                title="Similarity between your question and this source"
+                              >
+                                {Math.round(source.score * 100)}% match
                               </span>
                             )}
                           </div>
@@ -544,7 +717,7 @@ export default function ChatInterface() {
               <Upload size={20} />
               <input
                 type="file"
-                accept=".pdf,.doc,.docx,.txt"
+                accept=".pdf,.doc,.docx,.txt,.md,.markdown,.html,.htm,.csv,.json,.ino,.c,.cpp,.cc,.h,.hpp,.py,.launch,.yaml,.yml"
                 onChange={handleFileUpload}
                 className="hidden"
               />
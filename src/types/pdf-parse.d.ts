@@ -0,0 +1,30 @@
+// pdf-parse's index.js runs a self-test when bundled, so the library file is imported directly
+declare module 'pdf-parse/lib/pdf-parse.js' {
+  interface TextItem {
+    str: string;
+    transform: number[];
+  }
+
+  interface PageData {
+    pageNumber: number;
+    getTextContent(options?: {
+      normalizeWhitespace?: boolean;
+      disableCombineTextItems?: boolean;
+    }): Promise<{ items: TextItem[] }>;
+  }
+
+  interface PdfOptions {
+    pagerender?: (pageData: PageData) => Promise<string>;
+    max?: number;
+    version?: string;
+  }
+
+  interface PdfResult {
+    numpages: number;
+    numrender: number;
+    info: Record<string, unknown> | null;
+    text: string;
+  }
+
+  export default function pdf(dataBuffer: Buffer, options?: PdfOptions): Promise<PdfResult>;
+}
@@ -0,0 +1,259 @@
+import path from 'path';
+
+/**
+ * Splits source files at definition boundaries (functions, classes, top-level
+ * keys or launch file elements), so a chunk holds whole definitions instead
+ * of the end of one and the start of the next. Comments and decorators stay
+ * with the definition below them. Small definitions are packed together up to
+ * the chunk size; a definition that is too large is split again at the next
+ * nesting level, e.g. a class at its methods, and only then by lines.
+ */
+
+export type CodeLanguage = 'arduino' | 'c' | 'cpp' | 'python' | 'xml' | 'yaml';
+
+export interface CodeChunk {
+  content: string;
+  /** 1-based, inclusive */
+  startLine: number;
+  endLine: number;
+}
+
+const LANGUAGES_BY_EXTENSION: Record<string, CodeLanguage> = {
+  '.ino': 'arduino',
+  '.c': 'c',
+  '.cpp': 'cpp',
+  '.cc': 'cpp',
+  '.h': 'cpp',
+  '.hpp': 'cpp',
+  '.py': 'python',
+  '.launch': 'xml',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+};
+
+export const CODE_EXTENSIONS = Object.keys(LANGUAGES_BY_EXTENSION);
+
+// Code reads best in larger pieces than prose, so it has its own size, in characters
+const DEFAULT_CODE_CHUNK_SIZE = Number(process.env.CODE_CHUNK_SIZE) || 1500;
+const MAX_NESTING = 3;
+
+export function languageOf(filename: string): CodeLanguage | undefined {
+  return LANGUAGES_BY_EXTENSION[path.extname(filename).toLowerCase()];
+}
+
+export function splitCode(
+  text: string,
+  language: CodeLanguage,
+  chunkSize: number = DEFAULT_CODE_CHUNK_SIZE
+): CodeChunk[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const levels = language === 'xml'
+    ? elementLevels(lines)
+    : language === 'python' || language === 'yaml'
+      ? indentLevels(lines, language)
+      : braceLevels(lines);
+
+  const splitter = new RangeSplitter(lines, levels, chunkSize);
+  return splitter.split(0, lines.length - 1, 0);
+}
+
+class RangeSplitter {
+  constructor(
+    private lines: string[],
+    /** The nesting level of the unit that starts on each line, if one does */
+    private levels: (number | undefined)[],
+    private chunkSize: number
+  ) {}
+
+  split(from: number, to: number, level: number): CodeChunk[] {
+    const chunks: CodeChunk[] = [];
+    let current: [number, number] | null = null;
+    const flush = () => {
+      if (current) chunks.push(...this.toChunks(current[0], current[1]));
+      current = null;
+    };
+
+    for (const [start, end] of this.units(from, to, level)) {
+      if (this.size(start, end) > this.chunkSize) {
+        flush();
+        chunks.push(...(level < MAX_NESTING
+          ? this.split(start, end, level + 1)
+          : this.windows(start, end)));
+      } else if (current && this.size(current[0], end) > this.chunkSize) {
+        flush();
+        current = [start, end];
+      } else {
+        current = [current?.[0] ?? start, end];
+      }
+    }
+    flush();
+
+    return chunks;
+  }
+
+  /** Line ranges of the units at this level; anything before the first belongs to it. */
+  private units(from: number, to: number, level: number): [number, number][] {
+    const starts = [from];
+    for (let i = from + 1; i <= to; i++) {
+      if (this.levels[i] === level) starts.push(i);
+    }
+    return starts.map((start, i) => [start, i + 1 < starts.length ? starts[i + 1] - 1 : to]);
+  }
+
+  /** Pack lines up to the chunk size, for units without inner boundaries. */
+  private windows(from: number, to: number): CodeChunk[] {
+    const chunks: CodeChunk[] = [];
+    let start = from;
+    for (let i = from; i <= to; i++) {
+      if (i > start && this.size(start, i) > this.chunkSize) {
+        chunks.push(...this.toChunks(start, i - 1));
+        start = i;
+      }
+    }
+    chunks.push(...this.toChunks(start, to));
+    return chunks;
+  }
+
+  private size(from: number, to: number): number {
+    let size = 0;
+    for (let i = from; i <= to; i++) size += this.lines[i].length + 1;
+    return size;
+  }
+
+  /** The range as a chunk without its leading and trailing blank lines, if anything is left. */
+  private toChunks(from: number, to: number): CodeChunk[] {
+    while (from <= to && !this.lines[from].trim()) from++;
+    while (to >= from && !this.lines[to].trim()) to--;
+    if (from > to) return [];
+    return [{ content: this.lines.slice(from, to + 1).join('\n'), startLine: from + 1, endLine: to + 1 }];
+  }
+}
+
+/**
+ * C, C++ and Arduino: a unit starts on the first line after a statement or
+ * block at the same brace depth has ended. Namespaces and `extern "C"` blocks
+ * do not count as nesting, so their functions are split like top-level ones.
+ */
+function braceLevels(lines: string[]): (number | undefined)[] {
+  const levels: (number | undefined)[] = [];
+  // Whether the previous unit at each depth has ended
+  const ended: boolean[] = [true];
+  let depth = 0;
+  let inComment = false;
+
+  for (const line of lines) {
+    let code = '';
+    for (let i = 0; i < line.length; i++) {
+      if (inComment) {
+        if (line.startsWith('*/', i)) {
+          inComment = false;
+          i++;
+        }
+      } else if (line.startsWith('/*', i)) {
+        inComment = true;
+        i++;
+      } else if (line.startsWith('//', i)) {
+        break;
+      } else if (line[i] === '"' || line[i] === '\'') {
+        // Skip string and character literals, which may contain braces
+        const quote = line[i];
+        for (i++; i < line.length && line[i] !== quote; i++) {
+          if (line[i] === '\\') i++;
+        }
+        code += quote + quote;
+      } else {
+        code += line[i];
+      }
+    }
+    code = code.trim();
+
+    if (line.trim() && ended[depth]) {
+      levels.push(depth);
+      ended[depth] = false;
+    } else {
+      levels.push(undefined);
+    }
+
+    if (/^(namespace\b[^{]*|extern\s+""\s*)\{$/.test(code)) {
+      ended[depth] = true;
+      continue;
+    }
+
+    for (const char of code) {
+      if (char === '{') {
+        depth++;
+        ended[depth] = true;
+      } else if (char === '}') {
+        depth = Math.max(0, depth - 1);
+      }
+    }
+    // Statements, blocks, directives and access labels end a unit; comments do not
+    if (/[;}]$/.test(code) || code.startsWith('#') || /^(public|private|protected)\s*:$/.test(code)) {
+      ended[depth] = true;
+    }
+  }
+
+  return levels;
+}
+
+/**
+ * Python and YAML: nesting follows indentation. In YAML every key starts a
+ * unit; in Python nested units are only definitions, since splitting a
+ * function body between statements loses less than splitting a class would.
+ * A comment or decorator starts the unit of the line below it.
+ */
+function indentLevels(lines: string[], language: 'python' | 'yaml'): (number | undefined)[] {
+  const levels: (number | undefined)[] = [];
+  const indents: number[] = [];
+  let attachNext = false;
+
+  for (const line of lines) {
+    if (!line.trim()) {
+      levels.push(undefined);
+      continue;
+    }
+
+    const indent = line.length - line.trimStart().length;
+    while (indents.length > 0 && indents[indents.length - 1] > indent) indents.pop();
+    if (indents.length === 0 || indents[indents.length - 1] < indent) indents.push(indent);
+    const level = indents.length - 1;
+
+    const trimmed = line.trim();
+    const isDefinition = /^(async\s+def|def|class)\s/.test(trimmed) || trimmed.startsWith('@');
+    const startsUnit = !attachNext && (level === 0 || language === 'yaml' || isDefinition || trimmed.startsWith('#'));
+    levels.push(startsUnit ? level : undefined);
+
+    attachNext = trimmed.startsWith('#') || (language === 'python' && trimmed.startsWith('@'));
+  }
+
+  return levels;
+}
+
+/** XML such as ROS launch files: each element, with the comments above it, is a unit at its depth. */
+function elementLevels(lines: string[]): (number | undefined)[] {
+  const levels: (number | undefined)[] = [];
+  let depth = 0;
+  let afterComment = false;
+  let inComment = false;
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    const startsElement = !inComment && trimmed.startsWith('<') && !trimmed.startsWith('</');
+    levels.push(startsElement && !afterComment ? depth : undefined);
+
+    if (trimmed) {
+      const isComment: boolean = inComment || trimmed.startsWith('<!--');
+      const withoutComments = line.replace(/<!--[\s\S]*?(-->|$)/g, '');
+      inComment = isComment && !trimmed.endsWith('-->');
+      afterComment = isComment;
+
+      if (!isComment) {
+        const opened = (withoutComments.match(/<[A-Za-z_][^>]*?(?<!\/)>/g) ?? []).length;
+        const closed = (withoutComments.match(/<\/[^>]+>/g) ?? []).length;
+        depth = Math.max(0, depth + opened - closed);
+      }
+    }
+  }
+
+  return levels;
+}
@@ -0,0 +1,30 @@
+import type { DocumentChunk, KnowledgeDocument } from '@/utils/vectorStore';
+
+/**
+ * A named corpus within the knowledge base, such as "drivetrain" or
+ * "competition rules". Every document belongs to exactly one collection and
+ * searches can be limited to any set of them.
+ */
+export interface Collection {
+  name: string;
+  description?: string;
+  createdAt: number;
+}
+
+/** Where documents go when no collection is given, including everything stored before collections existed. */
+export const DEFAULT_COLLECTION = 'default';
+
+// Letters, digits, spaces, dashes and underscores, starting with a letter or digit
+const COLLECTION_NAME_PATTERN = /^[\p{L}\p{N}][\p{L}\p{N} _-]{0,49}$/u;
+
+export function collectionOf(item: DocumentChunk | KnowledgeDocument): string {
+  const collection = 'metadata' in item ? item.metadata.collection : item.collection;
+  return collection ?? DEFAULT_COLLECTION;
+}
+
+/** A trimmed collection name, or undefined if the value is not a valid one. */
+export function parseCollectionName(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const name = value.trim().replace(/\s+/g, ' ');
+  return COLLECTION_NAME_PATTERN.test(name) ? name : undefined;
+}
@@ -0,0 +1,180 @@
+import { getDocument, type DocumentChunk } from '@/utils/vectorSearch';
+
+// Expansion defaults, overridable through the environment
+const DEFAULT_NEIGHBORS = Number(process.env.CONTEXT_NEIGHBORS ?? 1);
+const DEFAULT_MAX_CHARS = Number(process.env.CONTEXT_MAX_CHARS) || 6000;
+// Shorter common text between neighbours is more likely chance than chunk overlap
+const MIN_OVERLAP_CHARS = 20;
+
+export interface ContextExpansionOptions {
+  /** How many chunks before and after each hit to pull in; 0 disables expansion */
+  neighbors?: number;
+  /** Upper bound on the characters of all passages together */
+  maxChars?: number;
+}
+
+/** A run of consecutive chunks from one document, built around one or more hits. */
+export interface ContextPassage {
+  /** The chunks in document order */
+  chunks: DocumentChunk[];
+  /** The retrieved chunks this passage was built around, best first */
+  hits: DocumentChunk[];
+  /** The chunks joined with their overlapping text removed */
+  content: string;
+}
+
+interface PassageState {
+  documentKey: string;
+  siblings: Map<number, DocumentChunk>;
+  chunks: Map<number, DocumentChunk>;
+  hits: DocumentChunk[];
+}
+
+/**
+ * Grow retrieved chunks into passages by adding the chunks just before and
+ * after them in the same document, since the hit alone often misses the
+ * step or definition it depends on. Passages that meet are merged into one.
+ *
+ * The budget is spent in rank order: first on the hits themselves, then on
+ * neighbours one step away from every hit, then two steps, and so on, so a
+ * lower-ranked hit is never dropped to make room for another hit's neighbours.
+ * The best hit is always kept, even when it alone exceeds the budget.
+ */
+export async function expandContext(
+  hits: DocumentChunk[],
+  options: ContextExpansionOptions = {}
+): Promise<ContextPassage[]> {
+  const neighbors = Math.max(0, Math.floor(options.neighbors ?? DEFAULT_NEIGHBORS));
+  const maxChars = options.maxChars ?? DEFAULT_MAX_CHARS;
+
+  const siblingsByDocument = new Map<string, Map<number, DocumentChunk>>();
+  const passages: PassageState[] = [];
+  let used = 0;
+
+  for (const hit of hits) {
+    const documentKey = hit.metadata.documentId ?? `chunk:${hit.id}`;
+    let siblings = siblingsByDocument.get(documentKey);
+    if (!siblings) {
+      siblings = neighbors > 0 ? await loadSiblings(hit) : new Map();
+      siblingsByDocument.set(documentKey, siblings);
+    }
+
+    const index = hit.metadata.chunkIndex ?? 0;
+    if (passages.length > 0 && used + hit.content.length > maxChars) continue;
+    passages.push({ documentKey, siblings, chunks: new Map([[index, hit]]), hits: [hit] });
+    used += hit.content.length;
+  }
+
+  for (let distance = 1; distance <= neighbors; distance++) {
+    // Past the ends of every hit's document there is nothing left to add
+    const reachable = passages.some(passage => {
+      const centre = passage.hits[0].metadata.chunkIndex ?? 0;
+      return passage.siblings.has(centre - distance) || passage.siblings.has(centre + distance);
+    });
+    if (!reachable) break;
+
+    for (const passage of passages) {
+      const centre = passage.hits[0].metadata.chunkIndex ?? 0;
+      for (const index of [centre - distance, centre + distance]) {
+        const neighbor = passage.siblings.get(index);
+        // Skip chunks already in this passage or another one, e.g. a nearby hit
+        if (!neighbor || passages.some(
+          other => other.documentKey === passage.documentKey && other.chunks.has(index)
+        )) continue;
+
+        const before = renderPassage(passage.chunks).length;
+        const after = renderPassage(new Map([...passage.chunks, [index, neighbor]])).length;
+        if (used + after - before > maxChars) continue;
+
+        passage.chunks.set(index, neighbor);
+        used += after - before;
+      }
+    }
+  }
+
+  return mergeAdjacent(passages).map(passage => ({
+    chunks: sortedChunks(passage.chunks),
+    hits: passage.hits,
+    content: renderPassage(passage.chunks),
+  }));
+}
+
+/** The other chunks of the hit's document, by chunk index. */
+async function loadSiblings(hit: DocumentChunk): Promise<Map<number, DocumentChunk>> {
+  const siblings = new Map<number, DocumentChunk>();
+  const documentId = hit.metadata.documentId;
+  if (!documentId || hit.metadata.chunkIndex === undefined) return siblings;
+
+  const record = await getDocument(documentId);
+  for (const chunk of record?.chunks ?? []) {
+    if (chunk.metadata.chunkIndex !== undefined) {
+      siblings.set(chunk.metadata.chunkIndex, chunk);
+    }
+  }
+  return siblings;
+}
+
+/** Combine passages of the same document whose chunk ranges touch or overlap. */
+function mergeAdjacent(passages: PassageState[]): PassageState[] {
+  const merged: PassageState[] = [];
+
+  for (const passage of passages) {
+    const indexes = [...passage.chunks.keys()];
+    const target = merged.find(other => {
+      if (other.documentKey !== passage.documentKey) return false;
+      const otherIndexes = [...other.chunks.keys()];
+      return Math.min(...indexes) <= Math.max(...otherIndexes) + 1
+        && Math.min(...otherIndexes) <= Math.max(...indexes) + 1;
+    });
+
+    if (target) {
+      passage.chunks.forEach((chunk, index) => target.chunks.set(index, chunk));
+      target.hits.push(...passage.hits);
+    } else {
+      merged.push(passage);
+    }
+  }
+
+  return merged;
+}
+
+function sortedChunks(chunks: Map<number, DocumentChunk>): DocumentChunk[] {
+  return [...chunks.entries()]
+    .sort(([a], [b]) => a - b)
+    .map(([, chunk]) => chunk);
+}
+
+/**
+ * Join chunks in document order. Consecutive chunks repeat the end of the
+ * previous one at their start, so that text is only kept once; chunks that
+ * are not consecutive are separated by an ellipsis.
+ */
+function renderPassage(chunks: Map<number, DocumentChunk>): string {
+  let content = '';
+  let previousIndex: number | undefined;
+
+  for (const [index, chunk] of [...chunks.entries()].sort(([a], [b]) => a - b)) {
+    if (previousIndex === undefined) {
+      content = chunk.content;
+    } else if (index === previousIndex + 1) {
+      const overlap = overlapLength(content, chunk.content);
+      const rest = chunk.content.slice(overlap);
+      content += overlap > 0 ? rest : `\n${rest}`;
+    } else {
+      content += `\n...\n${chunk.content}`;
+    }
+    previousIndex = index;
+  }
+
+  return content;
+}
+
+/** Length of the longest end of `text` that `next` starts with. */
+function overlapLength(text: string, next: string): number {
+  for (let length = Math.min(text.length, next.length); length >= MIN_OVERLAP_CHARS; length--) {
+    if (text.endsWith(next.slice(0, length))) {
+      return length;
+    }
+  }
+  return 0;
+}
@@ -0,0 +1,371 @@
+import path from 'path';
+import mammoth from 'mammoth';
+import pdf from 'pdf-parse/lib/pdf-parse.js';
+import WordExtractor from 'word-extractor';
+import { CODE_EXTENSIONS, languageOf, splitCode } from '@/utils/codeSplitter';
+import { htmlToMarkdown } from '@/utils/htmlToMarkdown';
+import { markdownSections, SplitOptions } from '@/utils/textSplitter';
+import type { TextSection } from '@/utils/vectorSearch';
+
+/** Text pulled out of an uploaded file, split into the sections it should be chunked by. */
+export interface ExtractedText {
+  sections: TextSection[];
+  /** Page count, for formats that have pages */
+  pages?: number;
+  characters: number;
+  /**
+   * How to chunk the text when the format calls for it, e.g. by heading, or
+   * `false` when the sections are already chunks
+   */
+  split?: SplitOptions | false;
+}
+
+export type DocumentFormat = 'pdf' | 'docx' | 'doc' | 'text' | 'markdown' | 'html' | 'csv' | 'json' | 'code';
+
+// Browsers report no or inconsistent MIME types for several of these, so the extension decides first
+const FORMATS_BY_EXTENSION: Record<string, DocumentFormat> = {
+  '.pdf': 'pdf',
+  '.docx': 'docx',
+  '.doc': 'doc',
+  '.txt': 'text',
+  '.md': 'markdown',
+  '.markdown': 'markdown',
+  '.html': 'html',
+  '.htm': 'html',
+  '.csv': 'csv',
+  '.json': 'json',
+  ...Object.fromEntries(CODE_EXTENSIONS.map(extension => [extension, 'code' as const])),
+};
+
+const FORMATS_BY_MIME_TYPE: Record<string, DocumentFormat> = {
+  'application/pdf': 'pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/msword': 'doc',
+  'text/plain': 'text',
+  'text/markdown': 'markdown',
+  'text/x-markdown': 'markdown',
+  'text/html': 'html',
+  'text/csv': 'csv',
+  'application/json': 'json',
+};
+
+/** File extensions accepted for upload, for `accept` attributes and error messages. */
+export const SUPPORTED_EXTENSIONS = Object.keys(FORMATS_BY_EXTENSION);
+
+export function detectFormat(filename: string, mimeType: string): DocumentFormat | undefined {
+  return FORMATS_BY_EXTENSION[path.extname(filename).toLowerCase()] ?? FORMATS_BY_MIME_TYPE[mimeType];
+}
+
+/**
+ * Extract the text of an uploaded file. Throws if the file cannot be read;
+ * a readable file without text yields no sections. Source code is recorded
+ * under `filePath`, which defaults to the file name.
+ */
+export async function extractText(buffer: Buffer, format: DocumentFormat, filePath = ''): Promise<ExtractedText> {
+  switch (format) {
+    case 'pdf':
+      return extractPdf(buffer);
+    case 'docx':
+      return extractDocx(buffer);
+    case 'doc':
+      return extractDoc(buffer);
+    case 'markdown':
+      return fromMarkdown(stripMarkdown(buffer.toString('utf-8')));
+    case 'html':
+      return fromMarkdown(htmlToMarkdown(buffer.toString('utf-8')));
+    case 'csv':
+      return extractCsv(buffer.toString('utf-8'));
+    case 'json':
+      return extractJson(buffer.toString('utf-8'));
+    case 'code':
+      return extractCode(buffer.toString('utf-8'), filePath);
+    default:
+      return fromText(buffer.toString('utf-8'));
+  }
+}
+
+/**
+ * Extract the text of a PDF page by page, so each chunk can cite the page it
+ * came from. Pages without text, such as scanned images, are left out.
+ */
+export async function extractPdf(buffer: Buffer): Promise<ExtractedText> {
+  const pageTexts = new Map<number, string>();
+
+  const result = await pdf(buffer, {
+    pagerender: async pageData => {
+      const { items } = await pageData.getTextContent();
+      // Items on the same baseline belong to one line
+      let text = '';
+      let lastY: number | undefined;
+      for (const item of items) {
+        const y = item.transform[5];
+        text += lastY === undefined || y === lastY ? item.str : `\n${item.str}`;
+        lastY = y;
+      }
+      pageTexts.set(pageData.pageNumber, text);
+      return text;
+    },
+  });
+
+  const sections: TextSection[] = [];
+  for (let pageNumber = 1; pageNumber <= result.numpages; pageNumber++) {
+    const content = cleanText(pageTexts.get(pageNumber) ?? '');
+    if (content) {
+      sections.push({ content, metadata: { pageNumber } });
+    }
+  }
+
+  return {
+    sections,
+    pages: result.numpages,
+    characters: sections.reduce((sum, section) => sum + section.content.length, 0),
+  };
+}
+
+/**
+ * Extract a Word document as markdown, keeping its headings, lists and
+ * tables, so it is chunked by section like a markdown file.
+ */
+export async function extractDocx(buffer: Buffer): Promise<ExtractedText> {
+  const { value: html } = await mammoth.convertToHtml({ buffer });
+  return fromMarkdown(htmlToMarkdown(html));
+}
+
+/**
+ * Extract a legacy binary Word document. Only the text survives, not the
+ * heading styles, so it is chunked like plain text. Headers, footers and
+ * footnotes are left out as they mostly repeat on every page.
+ */
+export async function extractDoc(buffer: Buffer): Promise<ExtractedText> {
+  const document = await new WordExtractor().extract(buffer);
+  return fromText(cleanText(document.getBody()));
+}
+
+/**
+ * Turn a CSV file into one line per row that names every value, such as
+ * `Part: CIM motor | Qty: 4`, so each chunk of rows reads on its own without
+ * the header row. The delimiter (comma, semicolon or tab) is detected.
+ */
+export function extractCsv(text: string): ExtractedText {
+  const [header = [], ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  const columns = header.map((name, i) => name.trim() || `Column ${i + 1}`);
+
+  const lines = rows
+    .map(row => row
+      // Line breaks inside a quoted value would split the row
+      .map(value => value.replace(/\s+/g, ' ').trim())
+      .map((value, i) => value ? `${columns[i] ?? `Column ${i + 1}`}: ${value}` : '')
+      .filter(Boolean)
+      .join(' | '))
+    .filter(Boolean);
+
+  const content = lines.join('\n');
+  return {
+    sections: content ? [{ content, metadata: { columns } }] : [],
+    characters: content.length,
+  };
+}
+
+/**
+ * Turn JSON into `path: value` lines, such as `drivetrain.motors[0].name: CIM`.
+ * Each top-level key of an object becomes its own section.
+ */
+export function extractJson(text: string): ExtractedText {
+  const value: unknown = JSON.parse(text);
+
+  const entries: [string | undefined, unknown][] = isPlainObject(value)
+    ? Object.entries(value)
+    : [[undefined, value]];
+  const sections: TextSection[] = [];
+  for (const [key, item] of entries) {
+    const content = jsonLines(item, key ?? '').join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    if (content) {
+      sections.push({ content, metadata: key ? { section: key } : undefined });
+    }
+  }
+
+  return {
+    sections,
+    characters: sections.reduce((sum, section) => sum + section.content.length, 0),
+  };
+}
+
+/**
+ * Split source code (Arduino, C, C++, Python, ROS launch files and YAML) at
+ * function, class and top-level key boundaries. Each chunk records the file
+ * path, language and lines it spans, so answers can point at the code.
+ */
+export function extractCode(text: string, filePath: string): ExtractedText {
+  const language = languageOf(filePath);
+  if (!language) {
+    throw new Error(`Unsupported source file: ${filePath}`);
+  }
+
+  const sections = splitCode(text.replace(/^\uFEFF/, ''), language).map(({ content, startLine, endLine }): TextSection => ({
+    content,
+    metadata: { filePath, language, startLine, endLine },
+  }));
+
+  return {
+    sections,
+    characters: sections.reduce((sum, section) => sum + section.content.length, 0),
+    split: false,
+  };
+}
+
+/**
+ * Strip markdown formatting that only adds noise to embeddings (emphasis,
+ * link targets, images, inline HTML, front matter) while keeping headings,
+ * lists, tables and code blocks.
+ */
+export function stripMarkdown(markdown: string): string {
+  let inFence = false;
+  const lines = markdown
+    .replace(/^\uFEFF/, '')
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .split('\n');
+
+  const stripped: string[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+      stripped.push(line);
+      continue;
+    }
+    if (inFence) {
+      stripped.push(line);
+      continue;
+    }
+
+    // Setext headings: a line underlined with === or ---
+    const next = lines[i + 1];
+    if (line.trim() && next !== undefined && /^(=+|-+)\s*$/.test(next) && !/^\s*([-*+]|\d+\.)\s/.test(line)) {
+      stripped.push(`${next.startsWith('=') ? '#' : '##'} ${stripInline(line.trim())}`);
+      i++;
+      continue;
+    }
+    // Reference-style link definitions
+    if (/^\s*\[[^\]]+\]:\s*\S+/.test(line)) continue;
+
+    stripped.push(stripInline(line));
+  }
+
+  return stripped.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+function stripInline(line: string): string {
+  return line
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\](\([^)]*\)|\[[^\]]*\])/g, '$1')
+    .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+    .replace(/(\*\*|__)(?=\S)(.+?)(?<=\S)\1/g, '$2')
+    .replace(/(^|[^\w*])\*(?=\S)(.+?)(?<=\S)\*(?!\w)/g, '$1$2')
+    .replace(/(^|[^\w_])_(?=\S)(.+?)(?<=\S)_(?!\w)/g, '$1$2')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    .replace(/(\S) {2,}/g, '$1 ');
+}
+
+/**
+ * One section per heading, each restating the headings above it so the
+ * markdown splitter prefixes every chunk with its trail, which is also
+ * recorded as the chunk's `section`.
+ */
+function fromMarkdown(markdown: string): ExtractedText {
+  const sections = markdownSections(markdown).map(({ headings, body }): TextSection => ({
+    content: [...headings.map((heading, i) => `${'#'.repeat(Math.min(i + 1, 6))} ${heading}`), body].join('\n\n'),
+    metadata: headings.length > 0 ? { section: headings.join(' > ') } : undefined,
+  }));
+
+  return {
+    sections,
+    characters: markdown.length,
+    split: { strategy: 'markdown' },
+  };
+}
+
+function fromText(text: string): ExtractedText {
+  const content = text.trim();
+  return {
+    sections: content ? [{ content }] : [],
+    characters: content.length,
+  };
+}
+
+/** RFC 4180 rows: quoted fields may contain delimiters, doubled quotes and line breaks. */
+function parseCsv(text: string): string[][] {
+  const firstLine = text.slice(0, text.indexOf('\n') === -1 ? undefined : text.indexOf('\n'));
+  const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+    firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best
+  );
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim()));
+}
+
+function jsonLines(value: unknown, keyPath: string): string[] {
+  const label = (text: string) => keyPath ? `${keyPath}: ${text}` : text;
+
+  if (value === null || typeof value !== 'object') {
+    return [label(String(value))];
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) return [];
+    if (value.every(item => item === null || typeof item !== 'object')) {
+      return [label(value.map(String).join(', '))];
+    }
+    // A blank line between elements keeps each one together when splitting
+    return value.flatMap((item, i) => [...jsonLines(item, `${keyPath}[${i}]`), '']);
+  }
+  return Object.entries(value).flatMap(([key, item]) => jsonLines(item, keyPath ? `${keyPath}.${key}` : key));
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Collapse the runs of spaces and blank lines that text extraction leaves behind. */
+function cleanText(text: string): string {
+  return text
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ ?\n ?/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
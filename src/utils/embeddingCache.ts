@@ -0,0 +1,204 @@
+import { createHash } from 'crypto';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+
+// Cache tuning, overridable through the environment. Each entry holds one
+// embedding as 32-bit floats, about 6 KB for text-embedding-3-small.
+const MAX_ENTRIES = Number(process.env.EMBEDDING_CACHE_MAX_ENTRIES) || 10000;
+
+export interface EmbeddingCacheStats {
+  enabled: boolean;
+  persistent: boolean;
+  entries: number;
+  /** Lookups answered from the cache since the server started */
+  hits: number;
+  misses: number;
+  /** hits / (hits + misses), or 0 before the first lookup */
+  hitRate: number;
+}
+
+// One line per cached embedding; the vector is base64-encoded Float32 data
+interface CacheLine {
+  key: string;
+  vector: string;
+}
+
+/**
+ * Remembers embeddings by model name and text hash, so re-ingesting a
+ * document or asking a repeated question does not call the provider again.
+ * The least recently used entries are evicted beyond EMBEDDING_CACHE_MAX_ENTRIES.
+ * With a cache file, new entries are appended to it and reloaded on restart.
+ */
+export class EmbeddingCache {
+  // Insertion order doubles as recency order: hits are moved to the end
+  private entries = new Map<string, Float32Array>();
+  private hits = 0;
+  private misses = 0;
+  private ready: Promise<void> | null = null;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly cacheFile: string | null,
+    private readonly maxEntries: number = MAX_ENTRIES
+  ) {}
+
+  /** Look up embeddings for many texts; misses are undefined. */
+  async getMany(model: string, texts: string[]): Promise<(number[] | undefined)[]> {
+    await this.load();
+    return texts.map(text => {
+      const key = cacheKey(model, text);
+      const vector = this.entries.get(key);
+      if (!vector) {
+        this.misses++;
+        return undefined;
+      }
+
+      this.hits++;
+      this.entries.delete(key);
+      this.entries.set(key, vector);
+      return Array.from(vector);
+    });
+  }
+
+  async setMany(model: string, texts: string[], embeddings: number[][]): Promise<void> {
+    await this.load();
+    const lines: CacheLine[] = [];
+    texts.forEach((text, i) => {
+      const key = cacheKey(model, text);
+      const vector = Float32Array.from(embeddings[i]);
+      this.remember(key, vector);
+      lines.push({ key, vector: Buffer.from(vector.buffer).toString('base64') });
+    });
+
+    if (this.cacheFile && lines.length > 0) {
+      const cacheFile = this.cacheFile;
+      await this.enqueue(async () => {
+        await mkdir(path.dirname(cacheFile), { recursive: true });
+        await appendFile(cacheFile, lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+      });
+    }
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    if (this.cacheFile) {
+      await this.enqueue(() => this.writeSnapshot());
+    }
+  }
+
+  async stats(): Promise<EmbeddingCacheStats> {
+    await this.load();
+    const lookups = this.hits + this.misses;
+    return {
+      enabled: true,
+      persistent: this.cacheFile !== null,
+      entries: this.entries.size,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? this.hits / lookups : 0,
+    };
+  }
+
+  private remember(key: string, vector: Float32Array): void {
+    this.entries.delete(key);
+    this.entries.set(key, vector);
+    while (this.entries.size > this.maxEntries) {
+      const oldest = this.entries.keys().next().value as string;
+      this.entries.delete(oldest);
+    }
+  }
+
+  private load(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.readCacheFile();
+    }
+    return this.ready;
+  }
+
+  private async readCacheFile(): Promise<void> {
+    if (!this.cacheFile) return;
+
+    let contents: string;
+    try {
+      contents = await readFile(this.cacheFile, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      console.warn('Could not read embedding cache, starting empty:', error);
+      return;
+    }
+
+    let lineCount = 0;
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const { key, vector }: CacheLine = JSON.parse(line);
+        const bytes = Buffer.from(vector, 'base64');
+        this.remember(key, new Float32Array(bytes.buffer, bytes.byteOffset, bytes.byteLength / 4).slice());
+        lineCount++;
+      } catch {
+        // A torn final line from a crash mid-append; the entry is simply re-embedded
+      }
+    }
+
+    // Drop evicted and repeated entries once they make up most of the file
+    if (lineCount > this.entries.size * 2) {
+      await this.enqueue(() => this.writeSnapshot());
+    }
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(write);
+    // A failed write only costs future cache hits, so never fail the caller
+    this.writeQueue = next.catch(error => console.warn('Embedding cache write failed:', error));
+    return this.writeQueue;
+  }
+
+  private async writeSnapshot(): Promise<void> {
+    if (!this.cacheFile) return;
+    await mkdir(path.dirname(this.cacheFile), { recursive: true });
+
+    const lines = [...this.entries].map(([key, vector]) =>
+      JSON.stringify({ key, vector: Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64') })
+    );
+    const tempFile = `${this.cacheFile}.tmp`;
+    await writeFile(tempFile, lines.length > 0 ? lines.join('\n') + '\n' : '');
+    await rename(tempFile, this.cacheFile);
+  }
+}
+
+function cacheKey(model: string, text: string): string {
+  return `${model}:${createHash('sha256').update(text).digest('hex')}`;
+}
+
+// Route handlers can be bundled separately, so keep one cache per process
+const globalForEmbeddingCache = globalThis as unknown as { embeddingCache?: EmbeddingCache | null };
+
+/**
+ * Returns the configured cache, or null when EMBEDDING_CACHE is `off`.
+ * The default `file` cache lives next to the vector store; `memory` keeps
+ * entries only until the server restarts.
+ */
+export function getEmbeddingCache(): EmbeddingCache | null {
+  if (globalForEmbeddingCache.embeddingCache === undefined) {
+    globalForEmbeddingCache.embeddingCache = createEmbeddingCache(process.env.EMBEDDING_CACHE || 'file');
+  }
+  return globalForEmbeddingCache.embeddingCache;
+}
+
+export function createEmbeddingCache(backend: string): EmbeddingCache | null {
+  switch (backend) {
+    case 'off':
+      return null;
+    case 'memory':
+      return new EmbeddingCache(null);
+    case 'file': {
+      const dataDir = process.env.VECTOR_STORE_DIR || path.join(process.cwd(), 'data');
+      return new EmbeddingCache(path.join(dataDir, 'embedding-cache.jsonl'));
+    }
+    default:
+      throw new Error(`Unknown embedding cache backend: ${backend}`);
+  }
+}
@@ -0,0 +1,125 @@
+import { openai } from '@ai-sdk/openai';
+import { embedMany } from 'ai';
+import { tokenize } from '@/utils/keywordIndex';
+
+/**
+ * Turns text into embedding vectors. Providers only embed; batching,
+ * retries and caching are handled by the callers in embeddings.ts.
+ */
+export interface EmbeddingProvider {
+  /** Identifies the model in cache keys, e.g. `openai:text-embedding-3-small` */
+  name: string;
+  /** Worth caching: false for providers that are cheaper to run than to look up */
+  cacheable: boolean;
+  /** Suggested similarity threshold, since each model spreads its scores differently */
+  minSimilarity: number;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly cacheable = true;
+  readonly minSimilarity = 0.3;
+  private model: ReturnType<typeof openai.embedding>;
+
+  constructor(modelId: string = 'text-embedding-3-small') {
+    this.name = `openai:${modelId}`;
+    this.model = openai.embedding(modelId);
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    const result = await embedMany({
+      model: this.model,
+      values: texts,
+      maxRetries: 0, // Retries are handled by the caller so they can back off
+    });
+    return result.embeddings;
+  }
+}
+
+/**
+ * Offline embedder hashing words, word pairs and character trigrams into a
+ * fixed-size vector (the "hashing trick"). It only captures lexical overlap,
+ * not meaning, but it is deterministic and needs no network or API key, so
+ * development, CI and air-gapped deployments can run retrieval end to end.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly name: string;
+  readonly cacheable = false;
+  readonly minSimilarity = 0.1;
+
+  constructor(private readonly dimensions: number = 512) {
+    this.name = `local:hashed-ngrams-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const counts = new Map<number, number>();
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // The hash's top bit picks the sign, so colliding features tend to cancel out
+      const signed = hash & 0x80000000 ? -weight : weight;
+      const index = hash % this.dimensions;
+      counts.set(index, (counts.get(index) ?? 0) + signed);
+    };
+
+    const words = tokenize(text);
+    words.forEach((word, i) => {
+      addFeature(`w:${word}`, 1);
+      if (i > 0) addFeature(`b:${words[i - 1]} ${word}`, 0.5);
+      // Trigrams let "servos" still match "servo"
+      const padded = `#${word}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        addFeature(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    const vector = new Array(this.dimensions).fill(0);
+    for (const [index, count] of counts) {
+      // Dampen repeated terms so one word cannot dominate a long chunk
+      vector[index] = Math.sign(count) * Math.log1p(Math.abs(count));
+    }
+
+    const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+    return vector.map(value => value / norm);
+  }
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Route handlers can be bundled separately, so keep one provider per process
+const globalForEmbeddingProvider = globalThis as unknown as { embeddingProvider?: EmbeddingProvider };
+
+/**
+ * Returns the provider named by EMBEDDING_PROVIDER: `openai` (default) or
+ * `local`. EMBEDDING_MODEL and LOCAL_EMBEDDING_DIMENSIONS configure them.
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (!globalForEmbeddingProvider.embeddingProvider) {
+    globalForEmbeddingProvider.embeddingProvider = createEmbeddingProvider(
+      process.env.EMBEDDING_PROVIDER || 'openai'
+    );
+  }
+  return globalForEmbeddingProvider.embeddingProvider;
+}
+
+export function createEmbeddingProvider(name: string): EmbeddingProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(process.env.EMBEDDING_MODEL || undefined);
+    case 'local':
+      return new LocalEmbeddingProvider(Number(process.env.LOCAL_EMBEDDING_DIMENSIONS) || undefined);
+    default:
+      throw new Error(`Unknown embedding provider: ${name}`);
+  }
+}
@@ -0,0 +1,142 @@
+import { APICallError } from 'ai';
+import { EmbeddingCacheStats, getEmbeddingCache } from '@/utils/embeddingCache';
+import { getEmbeddingProvider } from '@/utils/embeddingProviders';
+
+// Ingestion tuning, overridable through the environment
+const BATCH_SIZE = Number(process.env.EMBEDDING_BATCH_SIZE) || 100;
+const CONCURRENCY = Number(process.env.EMBEDDING_CONCURRENCY) || 4;
+// 0 turns retries off, so only an unset or invalid value falls back to the default
+const CONFIGURED_RETRIES = process.env.EMBEDDING_MAX_RETRIES !== undefined
+  ? Number(process.env.EMBEDDING_MAX_RETRIES)
+  : undefined;
+const MAX_RETRIES = Number.isInteger(CONFIGURED_RETRIES) && CONFIGURED_RETRIES! >= 0 ? CONFIGURED_RETRIES! : 5;
+const BASE_RETRY_DELAY_MS = 1000;
+
+export interface EmbeddingBatchFailure {
+  /** Indexes into the texts passed to createEmbeddings */
+  indexes: number[];
+  error: string;
+}
+
+export interface BatchEmbeddingResult {
+  /** One entry per input text; null where its batch failed */
+  embeddings: (number[] | null)[];
+  failures: EmbeddingBatchFailure[];
+}
+
+export async function createEmbedding(text: string): Promise<number[]> {
+  const provider = getEmbeddingProvider();
+  const cache = provider.cacheable ? getEmbeddingCache() : null;
+  const [cached] = (await cache?.getMany(provider.name, [text])) ?? [];
+  if (cached) return cached;
+
+  const [embedding] = await withRetry(() => provider.embed([text]));
+  await cache?.setMany(provider.name, [text], [embedding]);
+  return embedding;
+}
+
+/**
+ * Embed many texts in batches, running a bounded number of batches at once.
+ * Texts found in the embedding cache are not sent to the provider. A batch
+ * that still fails after its retries is reported in `failures` instead of
+ * aborting the remaining batches.
+ */
+export async function createEmbeddings(texts: string[]): Promise<BatchEmbeddingResult> {
+  const embeddings: (number[] | null)[] = new Array(texts.length).fill(null);
+  const failures: EmbeddingBatchFailure[] = [];
+
+  const provider = getEmbeddingProvider();
+  const cache = provider.cacheable ? getEmbeddingCache() : null;
+  const cached = (await cache?.getMany(provider.name, texts)) ?? [];
+  const uncached: number[] = [];
+  texts.forEach((_, i) => {
+    if (cached[i]) {
+      embeddings[i] = cached[i];
+    } else {
+      uncached.push(i);
+    }
+  });
+
+  const batches: number[][] = [];
+  for (let start = 0; start < uncached.length; start += BATCH_SIZE) {
+    batches.push(uncached.slice(start, start + BATCH_SIZE));
+  }
+
+  await runWithConcurrency(batches, CONCURRENCY, async (indexes) => {
+    try {
+      const batchTexts = indexes.map(i => texts[i]);
+      const batchEmbeddings = await withRetry(() => provider.embed(batchTexts));
+      indexes.forEach((textIndex, i) => {
+        embeddings[textIndex] = batchEmbeddings[i];
+      });
+      await cache?.setMany(provider.name, batchTexts, batchEmbeddings);
+    } catch (error) {
+      console.error(`Embedding batch of ${indexes.length} texts failed:`, error);
+      failures.push({
+        indexes,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  return { embeddings, failures };
+}
+
+export async function getEmbeddingCacheStats(): Promise<EmbeddingCacheStats> {
+  const cache = getEmbeddingCache();
+  if (!cache) {
+    return { enabled: false, persistent: false, entries: 0, hits: 0, misses: 0, hitRate: 0 };
+  }
+  return cache.stats();
+}
+
+export async function clearEmbeddingCache(): Promise<void> {
+  await getEmbeddingCache()?.clear();
+}
+
+async function withRetry<T>(operation: () => Promise<T>): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (attempt >= MAX_RETRIES || !isRetryableError(error)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(error, attempt);
+      console.warn(`Embedding request failed, retrying in ${delay}ms (attempt ${attempt + 1}/${MAX_RETRIES})`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
+
+function isRetryableError(error: unknown): boolean {
+  // Rate limits (429) and transient server errors are flagged retryable by the SDK
+  return APICallError.isInstance(error) && error.isRetryable;
+}
+
+function getRetryDelay(error: unknown, attempt: number): number {
+  // Respect the server's retry-after hint when it sends one
+  const retryAfter = APICallError.isInstance(error) ? error.responseHeaders?.['retry-after'] : undefined;
+  if (retryAfter && !isNaN(Number(retryAfter))) {
+    return Number(retryAfter) * 1000;
+  }
+
+  // Exponential backoff with jitter so parallel batches do not retry in lockstep
+  return BASE_RETRY_DELAY_MS * 2 ** attempt + Math.floor(Math.random() * BASE_RETRY_DELAY_MS);
+}
+
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      await worker(items[next++]);
+    }
+  });
+
+  await Promise.all(runners);
+}
@@ -0,0 +1,300 @@
+/**
+ * Hierarchical Navigable Small World graph for approximate nearest-neighbour
+ * search over embeddings (Malkov & Yashunin, 2016).
+ *
+ * The index expects vectors already passed through `normalizeVector`, so
+ * cosine similarity reduces to a dot product and callers can share the same
+ * arrays with an exact scan.
+ */
+
+export interface HnswOptions {
+  /** Links per node on the upper layers; layer 0 allows twice as many */
+  m?: number;
+  /** Candidate list size while inserting; higher builds a better graph */
+  efConstruction?: number;
+  /** Default candidate list size while searching; higher trades speed for recall */
+  efSearch?: number;
+}
+
+export interface HnswMatch {
+  id: string;
+  score: number;
+}
+
+interface HnswNode {
+  id: string;
+  vector: Float32Array;
+  level: number;
+  /** Neighbour ids for each layer from 0 up to `level` */
+  links: Set<string>[];
+}
+
+export function normalizeVector(vector: number[]): Float32Array {
+  const normalized = new Float32Array(vector.length);
+  let magnitude = 0;
+  for (const value of vector) {
+    magnitude += value * value;
+  }
+  magnitude = Math.sqrt(magnitude) || 1;
+
+  for (let i = 0; i < vector.length; i++) {
+    normalized[i] = vector[i] / magnitude;
+  }
+  return normalized;
+}
+
+export function dot(a: Float32Array, b: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) {
+    sum += a[i] * b[i];
+  }
+  return sum;
+}
+
+export class HnswIndex {
+  private readonly m: number;
+  private readonly maxLinksLayer0: number;
+  private readonly efConstruction: number;
+  private readonly efSearch: number;
+  private readonly levelMultiplier: number;
+
+  private nodes = new Map<string, HnswNode>();
+  private entryPoint: HnswNode | null = null;
+
+  constructor(options: HnswOptions = {}) {
+    this.m = options.m ?? 16;
+    this.maxLinksLayer0 = this.m * 2;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+    this.levelMultiplier = 1 / Math.log(this.m);
+  }
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  has(id: string): boolean {
+    return this.nodes.has(id);
+  }
+
+  /** Insert a normalised vector, replacing any existing vector with the same id. */
+  add(id: string, vector: Float32Array): void {
+    if (this.nodes.has(id)) {
+      this.remove(id);
+    }
+
+    const level = Math.floor(-Math.log(Math.random() || Number.MIN_VALUE) * this.levelMultiplier);
+    const node: HnswNode = {
+      id,
+      vector,
+      level,
+      links: Array.from({ length: level + 1 }, () => new Set<string>()),
+    };
+    this.nodes.set(id, node);
+
+    if (!this.entryPoint) {
+      this.entryPoint = node;
+      return;
+    }
+
+    // Greedily descend through the layers above the new node's level
+    let entry = this.entryPoint;
+    for (let layer = entry.level; layer > level; layer--) {
+      entry = this.searchLayer(node.vector, [entry], 1, layer)[0].node;
+    }
+
+    let entries = [entry];
+    for (let layer = Math.min(level, this.entryPoint.level); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node.vector, entries, this.efConstruction, layer);
+      const neighbours = this.selectNeighbours(node.vector, candidates.map(c => c.node), this.m);
+
+      for (const neighbour of neighbours) {
+        node.links[layer].add(neighbour.id);
+        neighbour.links[layer].add(node.id);
+        this.pruneLinks(neighbour, layer);
+      }
+      entries = candidates.map(c => c.node);
+    }
+
+    if (level > this.entryPoint.level) {
+      this.entryPoint = node;
+    }
+  }
+
+  /** Remove a vector and reconnect the neighbours it leaves behind. */
+  remove(id: string): boolean {
+    const node = this.nodes.get(id);
+    if (!node) return false;
+    this.nodes.delete(id);
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      const orphans = [...node.links[layer]]
+        .map(neighbourId => this.nodes.get(neighbourId))
+        .filter((n): n is HnswNode => !!n);
+
+      for (const neighbour of orphans) {
+        neighbour.links[layer].delete(id);
+
+        // Offer the removed node's other neighbours as replacement links
+        const candidates = new Map<string, HnswNode>();
+        for (const linkedId of neighbour.links[layer]) {
+          const linked = this.nodes.get(linkedId);
+          if (linked) candidates.set(linkedId, linked);
+        }
+        for (const other of orphans) {
+          if (other !== neighbour) candidates.set(other.id, other);
+        }
+
+        const selected = this.selectNeighbours(neighbour.vector, [...candidates.values()], this.maxLinks(layer));
+        neighbour.links[layer] = new Set(selected.map(n => n.id));
+        for (const linked of selected) {
+          if (linked.links[layer].size < this.maxLinks(layer)) {
+            linked.links[layer].add(neighbour.id);
+          }
+        }
+      }
+    }
+
+    if (this.entryPoint === node) {
+      this.entryPoint = null;
+      for (const candidate of this.nodes.values()) {
+        if (!this.entryPoint || candidate.level > this.entryPoint.level) {
+          this.entryPoint = candidate;
+        }
+      }
+    }
+
+    return true;
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.entryPoint = null;
+  }
+
+  /**
+   * Approximate top-k search for a normalised query; `ef` widens the candidate
+   * list for better recall. With `accept`, rejected nodes are still traversed
+   * but never returned, so filtering does not cut off parts of the graph.
+   */
+  search(
+    query: Float32Array,
+    k: number,
+    ef: number = this.efSearch,
+    accept?: (id: string) => boolean
+  ): HnswMatch[] {
+    if (!this.entryPoint) return [];
+
+    let entry = this.entryPoint;
+    for (let layer = entry.level; layer > 0; layer--) {
+      entry = this.searchLayer(query, [entry], 1, layer)[0].node;
+    }
+
+    return this.searchLayer(query, [entry], Math.max(ef, k), 0, accept)
+      .slice(0, k)
+      .map(candidate => ({ id: candidate.node.id, score: candidate.score }));
+  }
+
+  private maxLinks(layer: number): number {
+    return layer === 0 ? this.maxLinksLayer0 : this.m;
+  }
+
+  /** Best-first search of one layer, returning up to `ef` accepted nodes sorted by score. */
+  private searchLayer(
+    query: Float32Array,
+    entries: HnswNode[],
+    ef: number,
+    layer: number,
+    accept?: (id: string) => boolean
+  ): { node: HnswNode; score: number }[] {
+    const isAccepted = (node: HnswNode) => !accept || accept(node.id);
+    const visited = new Set<string>();
+    // Both lists are kept sorted by descending score
+    const candidates: { node: HnswNode; score: number }[] = [];
+    const results: { node: HnswNode; score: number }[] = [];
+
+    for (const entry of entries) {
+      if (visited.has(entry.id)) continue;
+      visited.add(entry.id);
+      const scored = { node: entry, score: dot(query, entry.vector) };
+      insertSorted(candidates, scored);
+      if (isAccepted(entry)) insertSorted(results, scored);
+    }
+    results.splice(ef);
+
+    while (candidates.length > 0) {
+      const current = candidates.shift()!;
+      if (results.length >= ef && current.score < results[results.length - 1].score) {
+        break;
+      }
+
+      for (const neighbourId of current.node.links[layer] ?? []) {
+        if (visited.has(neighbourId)) continue;
+        visited.add(neighbourId);
+
+        const neighbour = this.nodes.get(neighbourId);
+        if (!neighbour) continue;
+
+        const score = dot(query, neighbour.vector);
+        if (results.length < ef || score > results[results.length - 1].score) {
+          insertSorted(candidates, { node: neighbour, score });
+          if (isAccepted(neighbour)) {
+            insertSorted(results, { node: neighbour, score });
+            results.splice(ef);
+          }
+        }
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Neighbour selection heuristic: prefer candidates that are closer to the
+   * base vector than to any neighbour already chosen, which keeps links
+   * spread across clusters, then top up with the closest remaining ones.
+   */
+  private selectNeighbours(base: Float32Array, candidates: HnswNode[], max: number): HnswNode[] {
+    const sorted = candidates
+      .map(node => ({ node, score: dot(base, node.vector) }))
+      .sort((a, b) => b.score - a.score);
+
+    const selected: HnswNode[] = [];
+    const skipped: HnswNode[] = [];
+    for (const { node, score } of sorted) {
+      if (selected.length >= max) break;
+      const dominated = selected.some(chosen => dot(node.vector, chosen.vector) > score);
+      (dominated ? skipped : selected).push(node);
+    }
+
+    for (const node of skipped) {
+      if (selected.length >= max) break;
+      selected.push(node);
+    }
+    return selected;
+  }
+
+  private pruneLinks(node: HnswNode, layer: number): void {
+    const max = this.maxLinks(layer);
+    if (node.links[layer].size <= max) return;
+
+    const linked = [...node.links[layer]]
+      .map(id => this.nodes.get(id))
+      .filter((n): n is HnswNode => !!n);
+    node.links[layer] = new Set(this.selectNeighbours(node.vector, linked, max).map(n => n.id));
+  }
+}
+
+function insertSorted<T extends { score: number }>(list: T[], item: T): void {
+  let low = 0;
+  let high = list.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (list[mid].score >= item.score) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  list.splice(low, 0, item);
+}
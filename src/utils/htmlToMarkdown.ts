@@ -0,0 +1,218 @@
+/**
+ * Converts HTML into the markdown the `markdown` split strategy understands:
+ * headings become `#` lines, lists become `-`/`1.` items and tables become
+ * pipe tables. Formatting that does not help retrieval, such as bold text,
+ * links and images, is reduced to its text. Scripts, styles and other
+ * non-content elements are dropped.
+ */
+
+interface HtmlElement {
+  tag: string;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set([
+  'area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'source', 'track', 'wbr',
+]);
+// Elements whose content is never readable text, or only site navigation
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg', 'iframe', 'object', 'select', 'nav']);
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'aside', 'body', 'dd', 'details', 'div', 'dl', 'dt', 'fieldset', 'figcaption',
+  'figure', 'footer', 'form', 'header', 'hr', 'html', 'main', 'p', 'section', 'summary',
+]);
+// Opening one of these closes an unclosed sibling, as browsers do
+const IMPLIED_END: Record<string, { siblings: string[]; scope: string[] }> = {
+  li: { siblings: ['li'], scope: ['ul', 'ol'] },
+  tr: { siblings: ['tr'], scope: ['table', 'thead', 'tbody', 'tfoot'] },
+  td: { siblings: ['td', 'th'], scope: ['tr', 'table'] },
+  th: { siblings: ['td', 'th'], scope: ['tr', 'table'] },
+  dt: { siblings: ['dt', 'dd'], scope: ['dl'] },
+  dd: { siblings: ['dt', 'dd'], scope: ['dl'] },
+};
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', ndash: '–', mdash: '—',
+  hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', deg: '°', plusmn: '±',
+  micro: 'µ', times: '×', copy: '©', reg: '®', trade: '™', bull: '•', middot: '·',
+};
+
+export function htmlToMarkdown(html: string): string {
+  return tidyLines(renderChildren(parseHtml(html)));
+}
+
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: 'root', children: [] };
+  const stack: HtmlElement[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<![^>]*>|<\?[^>]*>|<\/([a-zA-Z][\w-]*)[^>]*>|<([a-zA-Z][\w-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>|([^<]+|<)/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(html)) !== null) {
+    const [, closing, opening, attributes, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (text !== undefined) {
+      current.children.push(decodeEntities(text));
+    } else if (opening) {
+      const tag = opening.toLowerCase();
+      const selfClosing = attributes.trimEnd().endsWith('/');
+
+      if (SKIPPED_TAGS.has(tag)) {
+        if (!selfClosing) {
+          const end = html.toLowerCase().indexOf(`</${tag}`, pattern.lastIndex);
+          pattern.lastIndex = end === -1 ? html.length : html.indexOf('>', end) + 1 || html.length;
+        }
+        continue;
+      }
+
+      closeImpliedSiblings(stack, tag);
+      const element: HtmlElement = { tag, children: [] };
+      stack[stack.length - 1].children.push(element);
+      if (!VOID_TAGS.has(tag) && !selfClosing) {
+        stack.push(element);
+      }
+    } else if (closing) {
+      const tag = closing.toLowerCase();
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+    }
+  }
+
+  return root;
+}
+
+function closeImpliedSiblings(stack: HtmlElement[], tag: string) {
+  if (tag === 'p' || BLOCK_TAGS.has(tag) || /^h[1-6]$/.test(tag) || ['ul', 'ol', 'table', 'pre'].includes(tag)) {
+    // A block inside a paragraph ends the paragraph
+    if (stack.length > 1 && stack[stack.length - 1].tag === 'p') {
+      stack.pop();
+    }
+  }
+
+  const rule = IMPLIED_END[tag];
+  if (!rule) return;
+  for (let i = stack.length - 1; i > 0; i--) {
+    if (rule.scope.includes(stack[i].tag)) return;
+    if (rule.siblings.includes(stack[i].tag)) {
+      stack.length = i;
+      return;
+    }
+  }
+}
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function renderChildren(element: HtmlElement): string {
+  return element.children.map(child => renderNode(child)).join('');
+}
+
+function renderNode(node: HtmlNode): string {
+  if (typeof node === 'string') {
+    return node.replace(/\s+/g, ' ');
+  }
+
+  const { tag } = node;
+  const heading = tag.match(/^h([1-6])$/);
+  if (heading) {
+    const title = renderInline(node);
+    return title ? `\n\n${'#'.repeat(Number(heading[1]))} ${title}\n\n` : '';
+  }
+
+  switch (tag) {
+    case 'br':
+      return '\n';
+    case 'ul':
+    case 'ol':
+      return `\n\n${renderList(node)}\n\n`;
+    case 'table':
+      return `\n\n${renderTable(node)}\n\n`;
+    case 'pre':
+      return `\n\n\`\`\`\n${textContent(node).replace(/^\n|\n$/g, '')}\n\`\`\`\n\n`;
+    case 'blockquote':
+      return `\n\n${renderBlock(node).split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+    case 'li':
+      // Only reached for list items outside a list
+      return `\n\n- ${renderBlock(node)}\n\n`;
+    default:
+      return BLOCK_TAGS.has(tag) ? `\n\n${renderChildren(node)}\n\n` : renderChildren(node);
+  }
+}
+
+/** An element's content as markdown, without surrounding blank lines. */
+function renderBlock(element: HtmlElement): string {
+  return tidyLines(renderChildren(element));
+}
+
+/**
+ * Drop the space that collapsed whitespace leaves at the start and end of
+ * lines, keeping the deeper indentation of nested list items, and at most
+ * one blank line in a row.
+ */
+function tidyLines(markdown: string): string {
+  return markdown
+    .split('\n')
+    .map(line => line.replace(/^ (?=\S)/, '').trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+/** An element's content on one line, for headings and table cells. */
+function renderInline(element: HtmlElement): string {
+  return renderChildren(element).replace(/\s+/g, ' ').trim();
+}
+
+function textContent(node: HtmlNode): string {
+  if (typeof node === 'string') return node;
+  if (node.tag === 'br') return '\n';
+  return node.children.map(textContent).join('');
+}
+
+function renderList(list: HtmlElement): string {
+  let number = 0;
+  return list.children
+    .filter((child): child is HtmlElement => typeof child !== 'string' && child.tag === 'li')
+    .map(item => {
+      const marker = list.tag === 'ol' ? `${++number}.` : '-';
+      const [first = '', ...rest] = renderBlock(item).replace(/\n{2,}/g, '\n').split('\n');
+      // Continuation lines and nested lists are indented under the item
+      const indent = ' '.repeat(marker.length + 1);
+      return [`${marker} ${first}`, ...rest.map(line => `${indent}${line}`)].join('\n');
+    })
+    .join('\n');
+}
+
+function renderTable(table: HtmlElement): string {
+  const rows: string[][] = [];
+  const collectRows = (element: HtmlElement) => {
+    for (const child of element.children) {
+      if (typeof child === 'string') continue;
+      if (child.tag === 'tr') {
+        rows.push(child.children
+          .filter((cell): cell is HtmlElement => typeof cell !== 'string' && (cell.tag === 'td' || cell.tag === 'th'))
+          .map(cell => renderInline(cell).replace(/\|/g, '\\|')));
+      } else if (['thead', 'tbody', 'tfoot'].includes(child.tag)) {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(table);
+
+  const columns = Math.max(0, ...rows.map(row => row.length));
+  if (columns === 0) return '';
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? '').join(' | ')} |`;
+
+  return [line(rows[0]), line(Array(columns).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
@@ -0,0 +1,124 @@
+/**
+ * Inverted index with Okapi BM25 scoring. Complements embedding search for
+ * exact tokens such as part numbers ("TB6612FNG", "MG996R") that embeddings
+ * tend to blur into vaguely similar text.
+ */
+
+export interface KeywordMatch {
+  id: string;
+  score: number;
+}
+
+// Term frequency saturation and document length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'does',
+  'for', 'from', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'my', 'of',
+  'on', 'or', 'so', 'that', 'the', 'their', 'then', 'there', 'these', 'this',
+  'to', 'was', 'what', 'when', 'where', 'which', 'why', 'will', 'with', 'you', 'your',
+]);
+
+/** Lowercase alphanumeric tokens, so "TB6612FNG" and "tb6612fng" match. */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) ?? [])
+    .filter(token => !STOP_WORDS.has(token));
+}
+
+/**
+ * Query tokens that name one specific thing, such as the part numbers
+ * "tb6612fng" or "mg996r": letters and digits mixed, at least three long.
+ * Ordinary words are left out, since sharing one says little about relevance.
+ */
+export function exactTerms(text: string): string[] {
+  return tokenize(text).filter(token => token.length >= 3 && /\d/.test(token) && /[a-z]/.test(token));
+}
+
+export class Bm25Index {
+  // term -> (document id -> term frequency)
+  private postings = new Map<string, Map<string, number>>();
+  // document id -> token count and distinct terms, for scoring and removal
+  private documents = new Map<string, { length: number; terms: string[] }>();
+  private totalLength = 0;
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /** Index a document, replacing any previous text with the same id. */
+  add(id: string, text: string): void {
+    if (this.documents.has(id)) {
+      this.remove(id);
+    }
+
+    const tokens = tokenize(text);
+    const frequencies = new Map<string, number>();
+    for (const token of tokens) {
+      frequencies.set(token, (frequencies.get(token) ?? 0) + 1);
+    }
+
+    for (const [term, frequency] of frequencies) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, frequency);
+    }
+
+    this.documents.set(id, { length: tokens.length, terms: [...frequencies.keys()] });
+    this.totalLength += tokens.length;
+  }
+
+  remove(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) return false;
+
+    for (const term of document.terms) {
+      const posting = this.postings.get(term);
+      if (posting?.delete(id) && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+    return true;
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documents.clear();
+    this.totalLength = 0;
+  }
+
+  /** Rank documents for a query; `accept` limits which ids may be returned. */
+  search(query: string, topK: number, accept?: (id: string) => boolean): KeywordMatch[] {
+    const documentCount = this.documents.size;
+    if (documentCount === 0) return [];
+
+    const averageLength = this.totalLength / documentCount || 1;
+    const scores = new Map<string, number>();
+
+    for (const term of new Set(tokenize(query))) {
+      const posting = this.postings.get(term);
+      if (!posting) continue;
+
+      // Rare terms such as part numbers get a much higher weight than common words
+      const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+      for (const [id, frequency] of posting) {
+        if (accept && !accept(id)) continue;
+        const length = this.documents.get(id)?.length ?? 0;
+        const termScore = idf * (frequency * (K1 + 1)) /
+          (frequency + K1 * (1 - B + B * length / averageLength));
+        scores.set(id, (scores.get(id) ?? 0) + termScore);
+      }
+    }
+
+    return [...scores]
+      .map(([id, score]) => ({ id, score }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+}
@@ -0,0 +1,76 @@
+import { openai } from '@ai-sdk/openai';
+import { generateText } from 'ai';
+
+/**
+ * How a question is turned into search queries:
+ * - `single`: search with the question as is
+ * - `multi-query`: also search with several paraphrases, so a vague question
+ *   matches passages that use different wording
+ * - `hyde`: also search with a hypothetical answer passage (HyDE, Gao et al.
+ *   2022), which embeds closer to real answers than a short question does
+ */
+export type RetrievalMode = 'single' | 'multi-query' | 'hyde';
+
+const RETRIEVAL_MODES: RetrievalMode[] = ['single', 'multi-query', 'hyde'];
+
+const DEFAULT_RETRIEVAL_MODE = parseRetrievalMode(process.env.RETRIEVAL_MODE) ?? 'single';
+const MULTI_QUERY_COUNT = Number(process.env.MULTI_QUERY_COUNT) || 3;
+
+export function parseRetrievalMode(value: unknown): RetrievalMode | undefined {
+  return RETRIEVAL_MODES.includes(value as RetrievalMode) ? value as RetrievalMode : undefined;
+}
+
+export function getDefaultRetrievalMode(): RetrievalMode {
+  return DEFAULT_RETRIEVAL_MODE;
+}
+
+/**
+ * The queries to search with for a question. The question itself always
+ * comes first, so keyword matching on exact part numbers is never lost and
+ * a failed model call degrades to a plain single-query search.
+ */
+export async function expandQuery(query: string, mode: RetrievalMode): Promise<string[]> {
+  try {
+    switch (mode) {
+      case 'multi-query':
+        return [query, ...(await generateParaphrases(query, MULTI_QUERY_COUNT))];
+      case 'hyde':
+        return [query, await generateHypotheticalAnswer(query)];
+      default:
+        return [query];
+    }
+  } catch (error) {
+    console.warn(`Query expansion (${mode}) failed, searching with the question only:`, error);
+    return [query];
+  }
+}
+
+async function generateParaphrases(query: string, count: number): Promise<string[]> {
+  const result = await generateText({
+    model: openai('gpt-4o-mini'),
+    system: `You help search a knowledge base of robot building documents and video transcripts. Write ${count} different search queries that could find passages answering the question: use other wording, name likely causes, components or technical terms, and keep any part numbers exactly as written. Reply with one query per line and nothing else.`,
+    prompt: query,
+    maxTokens: 200,
+  });
+
+  const paraphrases = result.text
+    .split('\n')
+    .map(line => line.replace(/^\s*(\d+[.)]|[-*•])\s*/, '').trim())
+    .filter(line => line && line.toLowerCase() !== query.toLowerCase());
+  return [...new Set(paraphrases)].slice(0, count);
+}
+
+async function generateHypotheticalAnswer(query: string): Promise<string> {
+  const result = await generateText({
+    model: openai('gpt-4o-mini'),
+    system: 'You write passages for a robot building knowledge base. Write a short, factual passage of about 100 words that answers the question the way a tutorial or datasheet would. Reply with only the passage.',
+    prompt: query,
+    maxTokens: 250,
+  });
+
+  const passage = result.text.trim();
+  if (!passage) {
+    throw new Error('Empty hypothetical answer');
+  }
+  return passage;
+}
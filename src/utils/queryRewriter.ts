@@ -0,0 +1,77 @@
+import { openai } from '@ai-sdk/openai';
+import { generateText } from 'ai';
+
+export interface HistoryMessage {
+  type: string;
+  content: string;
+}
+
+/**
+ * Turns the latest chat message into a standalone search query. Follow-ups
+ * such as "what about the 12V version?" only make sense together with the
+ * earlier turns, but retrieval embeds a single string, so the subject has to
+ * be written back into the query before searching.
+ */
+export interface QueryRewriter {
+  name: string;
+  rewrite(message: string, history: HistoryMessage[]): Promise<string>;
+}
+
+// Only the last few turns are needed to resolve what a follow-up refers to
+const HISTORY_TURNS = 6;
+const MAX_MESSAGE_CHARS = 500;
+
+/**
+ * Asks the chat model to condense the conversation into one search query.
+ * Without history the message is already standalone and no call is made.
+ * Falls back to the original message if the call fails.
+ */
+export class LlmQueryRewriter implements QueryRewriter {
+  name = 'llm';
+
+  async rewrite(message: string, history: HistoryMessage[]): Promise<string> {
+    const recent = history
+      .filter(msg => typeof msg?.content === 'string' && msg.content.trim())
+      .slice(-HISTORY_TURNS);
+    if (recent.length === 0) return message;
+
+    const transcript = recent
+      .map(msg => {
+        const content = msg.content.length > MAX_MESSAGE_CHARS
+          ? msg.content.substring(0, MAX_MESSAGE_CHARS) + '...'
+          : msg.content;
+        return `${msg.type === 'user' ? 'User' : 'Assistant'}: ${content}`;
+      })
+      .join('\n');
+
+    try {
+      const result = await generateText({
+        model: openai('gpt-4o-mini'),
+        system: 'You rewrite follow-up questions for a robot building assistant into standalone search queries. Using the conversation, replace pronouns and vague references with the components, models and topics they refer to. Keep part numbers and technical terms exactly as written. If the question is already standalone or changes topic, return it unchanged. Reply with only the query.',
+        prompt: `Conversation:\n${transcript}\n\nFollow-up question: ${message}`,
+        maxTokens: 100,
+      });
+
+      const rewritten = result.text.trim().replace(/^["']|["']$/g, '');
+      return rewritten || message;
+    } catch (error) {
+      console.warn('Query rewriting failed, searching with the original message:', error);
+      return message;
+    }
+  }
+}
+
+/**
+ * Returns the rewriter named by QUERY_REWRITER (`llm` by default, or `none`
+ * to search with the message exactly as sent).
+ */
+export function getQueryRewriter(name: string = process.env.QUERY_REWRITER || 'llm'): QueryRewriter | null {
+  switch (name) {
+    case 'none':
+      return null;
+    case 'llm':
+      return new LlmQueryRewriter();
+    default:
+      throw new Error(`Unknown query rewriter: ${name}`);
+  }
+}
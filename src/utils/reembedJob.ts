@@ -0,0 +1,222 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { createEmbeddings } from '@/utils/embeddings';
+import { getEmbeddingProvider } from '@/utils/embeddingProviders';
+import { DocumentChunk, embeddingModelOf, getVectorStore } from '@/utils/vectorStore';
+
+// Chunks embedded per step; progress is reported after each one
+const STEP_SIZE = 200;
+
+// The last finished job and the vectors it replaced survive restarts, so a
+// migration can still be rolled back after a deploy
+const DATA_DIR = process.env.VECTOR_STORE_DIR || path.join(process.cwd(), 'data');
+const JOB_FILE = path.join(DATA_DIR, 'reembed-job.json');
+const ROLLBACK_FILE = path.join(DATA_DIR, 'reembed-rollback.jsonl');
+
+export type ReembedStatus = 'running' | 'completed' | 'failed' | 'cancelled' | 'rolled-back';
+
+export interface ReembedJob {
+  id: string;
+  status: ReembedStatus;
+  /** The provider and model the store is being migrated to */
+  targetModel: string;
+  total: number;
+  processed: number;
+  startedAt: number;
+  finishedAt?: number;
+  error?: string;
+  /** Whether the previous embeddings are still saved and can be restored */
+  canRollback: boolean;
+  /**
+   * The models the replaced chunks were embedded with. Rolling back needs the
+   * embedding provider switched back to one of them first, or the restored
+   * vectors would not match query embeddings and vector search stays off.
+   */
+  previousModels?: string[];
+}
+
+interface JobState {
+  job: ReembedJob;
+  cancelRequested: boolean;
+}
+
+// Route handlers can be bundled separately, so keep one job per process
+const globalForReembed = globalThis as unknown as { reembedJob?: JobState };
+
+/** The running or last finished job, including one finished before a restart. */
+export async function getReembedJob(): Promise<ReembedJob | null> {
+  if (!globalForReembed.reembedJob) {
+    try {
+      const job: ReembedJob = JSON.parse(await readFile(JOB_FILE, 'utf-8'));
+      globalForReembed.reembedJob ??= { job, cancelRequested: false };
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+      return null;
+    }
+  }
+  return globalForReembed.reembedJob.job;
+}
+
+/** Why the last job cannot be rolled back with the configured provider, if it cannot. */
+export function rollbackBlockedReason(job: ReembedJob): string | undefined {
+  const currentModel = getEmbeddingProvider().name;
+  if (job.previousModels && !job.previousModels.includes(currentModel)) {
+    return `Switch the embedding provider back to ${job.previousModels.join(' or ')} before rolling back; the restored vectors do not match ${currentModel}`;
+  }
+  return undefined;
+}
+
+/**
+ * Start re-embedding every chunk that was not embedded with the configured
+ * provider. New embeddings are collected off to the side and swapped in with
+ * a single store write at the end, so searches keep using the old vectors
+ * while the job runs and a failed or cancelled job changes nothing.
+ */
+export function startReembedJob(): ReembedJob {
+  if (globalForReembed.reembedJob?.job.status === 'running') {
+    throw new Error('A re-embedding job is already running');
+  }
+
+  const state: JobState = {
+    job: {
+      id: uuidv4(),
+      status: 'running',
+      targetModel: getEmbeddingProvider().name,
+      total: 0,
+      processed: 0,
+      startedAt: Date.now(),
+      canRollback: false,
+    },
+    cancelRequested: false,
+  };
+  globalForReembed.reembedJob = state;
+
+  runJob(state).catch(async error => {
+    console.error('Re-embedding job failed:', error);
+    state.job.status = 'failed';
+    state.job.error = error instanceof Error ? error.message : 'Unknown error';
+    state.job.finishedAt = Date.now();
+    await saveJob(state.job).catch(saveError => console.error('Could not save re-embedding job:', saveError));
+  });
+
+  return state.job;
+}
+
+export function cancelReembedJob(): boolean {
+  const state = globalForReembed.reembedJob;
+  if (state?.job.status !== 'running') return false;
+  state.cancelRequested = true;
+  return true;
+}
+
+/**
+ * Put back the embeddings replaced by the last completed job. Chunks deleted
+ * since then stay deleted. The embedding provider must have been switched
+ * back to the previous model first. Returns how many chunks were restored.
+ */
+export async function rollbackReembedJob(): Promise<number> {
+  const job = await getReembedJob();
+  if (!job?.canRollback || job.status !== 'completed') {
+    throw new Error('There is no completed re-embedding job to roll back');
+  }
+  const blocked = rollbackBlockedReason(job);
+  if (blocked) {
+    throw new Error(blocked);
+  }
+
+  const previousChunks: DocumentChunk[] = (await readFile(ROLLBACK_FILE, 'utf-8'))
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line));
+  const restored = await stillStored(previousChunks);
+  await getVectorStore().upsert(restored);
+
+  job.status = 'rolled-back';
+  job.canRollback = false;
+  await saveJob(job);
+  await rm(ROLLBACK_FILE, { force: true });
+  return restored.length;
+}
+
+async function runJob(state: JobState): Promise<void> {
+  const { job } = state;
+  const store = getVectorStore();
+  // Starting over gives up the previous job's rollback
+  await rm(JOB_FILE, { force: true });
+  await rm(ROLLBACK_FILE, { force: true });
+
+  const outdated: DocumentChunk[] = [];
+  for await (const chunk of store.iterate()) {
+    if (embeddingModelOf(chunk) !== job.targetModel) {
+      outdated.push(chunk);
+    }
+  }
+  job.total = outdated.length;
+
+  const reembedded: DocumentChunk[] = [];
+  for (let start = 0; start < outdated.length; start += STEP_SIZE) {
+    if (state.cancelRequested) {
+      job.status = 'cancelled';
+      job.finishedAt = Date.now();
+      await saveJob(job);
+      return;
+    }
+
+    const step = outdated.slice(start, start + STEP_SIZE);
+    const { embeddings, failures } = await createEmbeddings(step.map(chunk => chunk.content));
+    if (failures.length > 0) {
+      throw new Error(`Could not embed ${step.length} chunks: ${failures[0].error}`);
+    }
+
+    step.forEach((chunk, i) => {
+      const embedding = embeddings[i]!;
+      reembedded.push({
+        ...chunk,
+        embedding,
+        metadata: {
+          ...chunk.metadata,
+          embeddingModel: job.targetModel,
+          embeddingDimensions: embedding.length,
+        },
+      });
+    });
+    job.processed += step.length;
+  }
+
+  // Chunks deleted while the job ran must not come back with the swap
+  const live = await stillStored(outdated);
+  const liveIds = new Set(live.map(chunk => chunk.id));
+  // Save the old vectors before replacing them, so a crash cannot lose both
+  await saveRollback(live);
+  await store.upsert(reembedded.filter(chunk => liveIds.has(chunk.id)));
+
+  job.status = 'completed';
+  job.canRollback = true;
+  job.previousModels = [...new Set(live.map(embeddingModelOf))];
+  job.finishedAt = Date.now();
+  await saveJob(job);
+}
+
+async function saveJob(job: ReembedJob): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true });
+  await writeFile(JOB_FILE, JSON.stringify(job, null, 2));
+}
+
+/** One chunk per line, written to a temporary file first so a torn write is never used. */
+async function saveRollback(chunks: DocumentChunk[]): Promise<void> {
+  await mkdir(DATA_DIR, { recursive: true });
+  const tempFile = `${ROLLBACK_FILE}.tmp`;
+  await writeFile(tempFile, chunks.map(chunk => JSON.stringify(chunk) + '\n').join(''));
+  await rename(tempFile, ROLLBACK_FILE);
+}
+
+/** The chunks that have not been deleted from the store since. */
+async function stillStored(chunks: DocumentChunk[]): Promise<DocumentChunk[]> {
+  const store = getVectorStore();
+  const existing: DocumentChunk[] = [];
+  for (const chunk of chunks) {
+    if (await store.get(chunk.id)) existing.push(chunk);
+  }
+  return existing;
+}
@@ -0,0 +1,145 @@
+import { openai } from '@ai-sdk/openai';
+import { generateText } from 'ai';
+import { tokenize } from '@/utils/keywordIndex';
+import type { DocumentChunk } from '@/utils/vectorStore';
+
+export interface Rerankable {
+  chunk: DocumentChunk;
+}
+
+/** The reranked item, with its relevance to the query between 0 and 1. */
+export type Reranked<T extends Rerankable> = T & { rerankScore: number };
+
+/**
+ * Second-stage scorer that reorders a retrieved candidate set. Rerankers see
+ * the query and full chunk text together, so they can judge relevance more
+ * precisely than the first-stage retrievers.
+ */
+export interface Reranker {
+  name: string;
+  rerank<T extends Rerankable>(query: string, items: T[]): Promise<Reranked<T>[]>;
+}
+
+/**
+ * Offline reranker scoring how much of the query each chunk covers. Query
+ * terms are weighted by how rare they are among the candidates, and chunks
+ * that contain query words next to each other get a bonus for the phrase.
+ * The retrieval order is kept as a prior so purely semantic matches are not
+ * pushed out by chunks that merely repeat the query's words.
+ */
+export class LexicalOverlapReranker implements Reranker {
+  name = 'lexical';
+
+  async rerank<T extends Rerankable>(query: string, items: T[]): Promise<Reranked<T>[]> {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) {
+      return items.map(item => ({ ...item, rerankScore: 0 }));
+    }
+
+    const chunkTokens = items.map(item => tokenize(item.chunk.content));
+    const chunkTerms = chunkTokens.map(tokens => new Set(tokens));
+    const weights = queryTerms.map(term => {
+      const containing = chunkTerms.filter(terms => terms.has(term)).length;
+      return Math.log(1 + items.length / (1 + containing));
+    });
+    const totalWeight = weights.reduce((sum, weight) => sum + weight, 0) || 1;
+
+    const queryBigrams = bigrams(tokenize(query));
+
+    return items
+      .map((item, i) => {
+        const coverage = queryTerms.reduce(
+          (sum, term, t) => sum + (chunkTerms[i].has(term) ? weights[t] : 0),
+          0
+        ) / totalWeight;
+
+        let phraseScore = 0;
+        if (queryBigrams.size > 0) {
+          const chunkBigrams = bigrams(chunkTokens[i]);
+          const matched = [...queryBigrams].filter(bigram => chunkBigrams.has(bigram)).length;
+          phraseScore = matched / queryBigrams.size;
+        }
+
+        const retrievalPrior = 1 - i / items.length;
+        return { ...item, rerankScore: 0.55 * coverage + 0.15 * phraseScore + 0.3 * retrievalPrior };
+      })
+      .sort((a, b) => b.rerankScore - a.rerankScore);
+  }
+}
+
+/**
+ * Asks the chat model to grade each candidate. More accurate for paraphrased
+ * questions, at the cost of one extra model call per query. Falls back to the
+ * lexical reranker if the call fails or the reply cannot be parsed.
+ */
+export class LlmReranker implements Reranker {
+  name = 'llm';
+  private fallback = new LexicalOverlapReranker();
+
+  async rerank<T extends Rerankable>(query: string, items: T[]): Promise<Reranked<T>[]> {
+    if (items.length === 0) return [];
+
+    const passages = items
+      .map((item, i) => `[${i + 1}] ${item.chunk.content.substring(0, 800)}`)
+      .join('\n\n');
+
+    try {
+      const result = await generateText({
+        model: openai('gpt-4o-mini'),
+        system: 'You grade search results for a robot building assistant. Rate how useful each passage is for answering the question, from 0 (irrelevant) to 10 (directly answers it). Reply with only a JSON array of numbers, one per passage, in passage order.',
+        prompt: `Question: ${query}\n\nPassages:\n${passages}`,
+        maxTokens: 300,
+      });
+
+      const scores = parseScores(result.text, items.length);
+      if (!scores) {
+        throw new Error(`Unexpected reranker reply: ${result.text.substring(0, 100)}`);
+      }
+
+      return items
+        .map((item, i) => ({ ...item, rerankScore: scores[i] / 10 }))
+        .sort((a, b) => b.rerankScore - a.rerankScore);
+    } catch (error) {
+      console.warn('LLM reranking failed, using lexical reranker instead:', error);
+      return this.fallback.rerank(query, items);
+    }
+  }
+}
+
+function parseScores(text: string, expected: number): number[] | null {
+  const match = text.match(/\[[\s\S]*\]/);
+  if (!match) return null;
+
+  try {
+    const scores = JSON.parse(match[0]);
+    if (!Array.isArray(scores) || scores.length !== expected) return null;
+    return scores.map(score => Math.min(10, Math.max(0, Number(score) || 0)));
+  } catch {
+    return null;
+  }
+}
+
+function bigrams(tokens: string[]): Set<string> {
+  const pairs = new Set<string>();
+  for (let i = 0; i < tokens.length - 1; i++) {
+    pairs.add(`${tokens[i]} ${tokens[i + 1]}`);
+  }
+  return pairs;
+}
+
+/**
+ * Returns the reranker named by RERANKER (`lexical` by default, `llm`, or
+ * `none` to keep the retrieval order).
+ */
+export function getReranker(name: string = process.env.RERANKER || 'lexical'): Reranker | null {
+  switch (name) {
+    case 'none':
+      return null;
+    case 'lexical':
+      return new LexicalOverlapReranker();
+    case 'llm':
+      return new LlmReranker();
+    default:
+      throw new Error(`Unknown reranker: ${name}`);
+  }
+}
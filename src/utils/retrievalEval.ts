@@ -0,0 +1,255 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import {
+  DocumentChunk,
+  parseSearchOptions,
+  searchSimilarDocuments,
+  SearchOptions,
+} from '@/utils/vectorSearch';
+
+/**
+ * A question with the sources that should be retrieved for it. Each entry of
+ * `expected` is a chunk id, a document id, or a document's source or title
+ * (such as an uploaded file name); a chunk matching any of them is relevant.
+ * Sources and titles survive re-ingestion, so they are the better choice when
+ * comparing chunking settings.
+ */
+export interface GoldenQuestion {
+  id: string;
+  question: string;
+  expected: string[];
+}
+
+export interface GoldenSet {
+  name: string;
+  description?: string;
+  questions: GoldenQuestion[];
+  updatedAt: number;
+}
+
+/** One retrieval configuration to score a golden set against. */
+export interface EvalConfig {
+  name: string;
+  topK: number;
+  search?: SearchOptions;
+}
+
+/** Averages over all questions; recall and nDCG are cut off at the config's topK. */
+export interface RetrievalMetrics {
+  recall: number;
+  mrr: number;
+  ndcg: number;
+}
+
+export interface QuestionResult {
+  id: string;
+  question: string;
+  recall: number;
+  reciprocalRank: number;
+  ndcg: number;
+  retrieved: { chunkId: string; title: string; relevant: boolean }[];
+  /** Expected entries that no retrieved chunk matched */
+  missed: string[];
+}
+
+export interface ConfigResult {
+  config: EvalConfig;
+  metrics: RetrievalMetrics;
+  questions: QuestionResult[];
+}
+
+export interface EvalReport {
+  set: string;
+  runAt: number;
+  results: ConfigResult[];
+}
+
+const MAX_TOP_K = 50;
+
+export const DEFAULT_EVAL_CONFIG: EvalConfig = { name: 'default', topK: 5 };
+
+function goldenSetsPath(): string {
+  const dataDir = process.env.VECTOR_STORE_DIR || path.join(process.cwd(), 'data');
+  return path.join(dataDir, 'golden-sets.json');
+}
+
+export async function listGoldenSets(): Promise<GoldenSet[]> {
+  try {
+    const sets: GoldenSet[] = JSON.parse(await readFile(goldenSetsPath(), 'utf-8'));
+    return sets.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+}
+
+export async function getGoldenSet(name: string): Promise<GoldenSet | undefined> {
+  return (await listGoldenSets()).find(set => set.name === name);
+}
+
+/** Create the set, or replace the one with the same name. */
+export async function saveGoldenSet(set: GoldenSet): Promise<void> {
+  const sets = (await listGoldenSets()).filter(existing => existing.name !== set.name);
+  await writeGoldenSets([...sets, set]);
+}
+
+export async function deleteGoldenSet(name: string): Promise<boolean> {
+  const sets = await listGoldenSets();
+  const remaining = sets.filter(set => set.name !== name);
+  if (remaining.length === sets.length) return false;
+  await writeGoldenSets(remaining);
+  return true;
+}
+
+async function writeGoldenSets(sets: GoldenSet[]): Promise<void> {
+  const file = goldenSetsPath();
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(sets, null, 2));
+}
+
+/**
+ * Validate a golden set from a request or file. Questions without an id get
+ * their position as one. Throws with a message that can be shown to the user.
+ */
+export function parseGoldenSet(input: unknown): GoldenSet {
+  if (!input || typeof input !== 'object') {
+    throw new Error('Golden set must be an object');
+  }
+  const { name, description, questions } = input as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim()) {
+    throw new Error('Golden set needs a name');
+  }
+  if (!Array.isArray(questions) || questions.length === 0) {
+    throw new Error('Golden set needs at least one question');
+  }
+
+  const ids = new Set<string>();
+  const parsed = questions.map((value, i): GoldenQuestion => {
+    const { id, question, expected } = (value ?? {}) as Record<string, unknown>;
+    if (typeof question !== 'string' || !question.trim()) {
+      throw new Error(`Question ${i + 1} has no text`);
+    }
+    if (!Array.isArray(expected) || !expected.some(entry => typeof entry === 'string' && entry.trim())) {
+      throw new Error(`Question ${i + 1} has no expected sources`);
+    }
+    const questionId = typeof id === 'string' && id.trim() ? id.trim() : String(i + 1);
+    if (ids.has(questionId)) {
+      throw new Error(`Question id ${questionId} is used twice`);
+    }
+    ids.add(questionId);
+
+    return {
+      id: questionId,
+      question: question.trim(),
+      expected: expected
+        .filter((entry): entry is string => typeof entry === 'string')
+        .map(entry => entry.trim())
+        .filter(Boolean),
+    };
+  });
+
+  return {
+    name: name.trim(),
+    description: typeof description === 'string' && description.trim() ? description.trim() : undefined,
+    questions: parsed,
+    updatedAt: Date.now(),
+  };
+}
+
+/** Validate configurations from a request, falling back to the default one. */
+export function parseEvalConfigs(input: unknown): EvalConfig[] {
+  if (!Array.isArray(input) || input.length === 0) {
+    return [DEFAULT_EVAL_CONFIG];
+  }
+
+  return input.map((value, i) => {
+    const { name, topK, search } = (value ?? {}) as Record<string, unknown>;
+    if (typeof topK !== 'number' || !Number.isInteger(topK) || topK < 1 || topK > MAX_TOP_K) {
+      throw new Error(`Configuration ${i + 1}: topK must be a whole number from 1 to ${MAX_TOP_K}`);
+    }
+    return {
+      name: typeof name === 'string' && name.trim() ? name.trim() : `config ${i + 1}`,
+      topK,
+      search: parseSearchOptions(search),
+    };
+  });
+}
+
+/** Run every question of the set under each configuration against the current store. */
+export async function evaluateRetrieval(set: GoldenSet, configs: EvalConfig[]): Promise<EvalReport> {
+  const results: ConfigResult[] = [];
+
+  for (const config of configs) {
+    const questions: QuestionResult[] = [];
+    for (const question of set.questions) {
+      const hits = await searchSimilarDocuments(question.question, config.topK, config.search);
+      questions.push(scoreQuestion(question, hits.map(hit => hit.chunk), config.topK));
+    }
+
+    const average = (key: 'recall' | 'reciprocalRank' | 'ndcg') =>
+      questions.reduce((sum, result) => sum + result[key], 0) / questions.length;
+    results.push({
+      config,
+      metrics: { recall: average('recall'), mrr: average('reciprocalRank'), ndcg: average('ndcg') },
+      questions,
+    });
+  }
+
+  return { set: set.name, runAt: Date.now(), results };
+}
+
+/**
+ * Score one ranking. Each expected entry counts once: the first chunk that
+ * matches it earns the gain and later chunks of the same source earn nothing,
+ * so returning five chunks of one document does not look like five good hits.
+ */
+export function scoreQuestion(
+  question: GoldenQuestion,
+  ranking: DocumentChunk[],
+  k: number
+): QuestionResult {
+  const found = new Set<string>();
+  let reciprocalRank = 0;
+  let dcg = 0;
+
+  const retrieved = ranking.slice(0, k).map((chunk, i) => {
+    const matched = question.expected.filter(entry => matchesExpected(chunk, entry));
+    if (matched.length > 0 && reciprocalRank === 0) {
+      reciprocalRank = 1 / (i + 1);
+    }
+    const fresh = matched.filter(entry => !found.has(entry));
+    if (fresh.length > 0) {
+      dcg += 1 / Math.log2(i + 2);
+    }
+    matched.forEach(entry => found.add(entry));
+
+    return {
+      chunkId: chunk.id,
+      title: chunk.metadata.title || chunk.metadata.source,
+      relevant: matched.length > 0,
+    };
+  });
+
+  let idealDcg = 0;
+  for (let i = 0; i < Math.min(question.expected.length, k); i++) {
+    idealDcg += 1 / Math.log2(i + 2);
+  }
+
+  return {
+    id: question.id,
+    question: question.question,
+    recall: found.size / question.expected.length,
+    reciprocalRank,
+    ndcg: idealDcg > 0 ? dcg / idealDcg : 0,
+    retrieved,
+    missed: question.expected.filter(entry => !found.has(entry)),
+  };
+}
+
+function matchesExpected(chunk: DocumentChunk, entry: string): boolean {
+  return chunk.id === entry
+    || chunk.metadata.documentId === entry
+    || chunk.metadata.source === entry
+    || chunk.metadata.title === entry;
+}
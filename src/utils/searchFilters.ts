@@ -0,0 +1,122 @@
+import { collectionOf } from '@/utils/collections';
+import type { DocumentChunk } from '@/utils/vectorStore';
+
+/**
+ * Restricts which chunks a search may return. Every field that is set must
+ * match (AND); list fields match when any of their values does (OR), except
+ * `tags`, where a chunk must carry all of them.
+ */
+export interface SearchFilter {
+  /** Collections to search; all of them when unset */
+  collections?: string[];
+  types?: DocumentChunk['metadata']['type'][];
+  sources?: string[];
+  /** Case-insensitive substring of the chunk's title */
+  titleContains?: string;
+  tags?: string[];
+  /** Bounds on when the chunk was added, in milliseconds since the epoch */
+  addedAfter?: number;
+  addedBefore?: number;
+}
+
+const CHUNK_TYPES: DocumentChunk['metadata']['type'][] = ['document', 'youtube'];
+
+export function matchesFilter(chunk: DocumentChunk, filter: SearchFilter): boolean {
+  const { metadata } = chunk;
+
+  if (filter.collections && !filter.collections.includes(collectionOf(chunk))) {
+    return false;
+  }
+  if (filter.types && !filter.types.includes(metadata.type)) {
+    return false;
+  }
+  if (filter.sources && !filter.sources.includes(metadata.source)) {
+    return false;
+  }
+  if (filter.titleContains) {
+    const title = (metadata.title || metadata.source).toLowerCase();
+    if (!title.includes(filter.titleContains.toLowerCase())) return false;
+  }
+  if (filter.tags && filter.tags.length > 0) {
+    const chunkTags = (metadata.tags ?? []).map(tag => tag.toLowerCase());
+    if (!filter.tags.every(tag => chunkTags.includes(tag.toLowerCase()))) return false;
+  }
+  if (filter.addedAfter !== undefined && (metadata.timestamp ?? 0) < filter.addedAfter) {
+    return false;
+  }
+  if (filter.addedBefore !== undefined && (metadata.timestamp ?? 0) > filter.addedBefore) {
+    return false;
+  }
+
+  return true;
+}
+
+export function isEmptyFilter(filter: SearchFilter | undefined): boolean {
+  return !filter || Object.values(filter).every(value => value === undefined);
+}
+
+/**
+ * Read a filter from an API request body. Unknown fields and malformed values
+ * are dropped rather than rejected. Dates may be timestamps or ISO strings.
+ */
+export function parseSearchFilter(input: unknown): SearchFilter | undefined {
+  if (!input || typeof input !== 'object') {
+    return undefined;
+  }
+
+  const raw = input as Record<string, unknown>;
+  const filter: SearchFilter = {};
+
+  const collections = toStringList(raw.collections);
+  if (collections && collections.length > 0) filter.collections = collections;
+
+  const types = toStringList(raw.types)
+    ?.filter((type): type is DocumentChunk['metadata']['type'] =>
+      CHUNK_TYPES.includes(type as DocumentChunk['metadata']['type'])
+    );
+  if (types && types.length > 0) filter.types = types;
+
+  const sources = toStringList(raw.sources);
+  if (sources && sources.length > 0) filter.sources = sources;
+
+  if (typeof raw.titleContains === 'string' && raw.titleContains.trim()) {
+    filter.titleContains = raw.titleContains.trim();
+  }
+
+  const tags = toStringList(raw.tags);
+  if (tags && tags.length > 0) filter.tags = tags;
+
+  filter.addedAfter = toTimestamp(raw.addedAfter);
+  filter.addedBefore = toTimestamp(raw.addedBefore);
+
+  return isEmptyFilter(filter) ? undefined : filter;
+}
+
+/** Split a comma-separated tag list as typed into a form field. */
+export function parseTagList(value: string): string[] {
+  return value
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(Boolean);
+}
+
+function toStringList(value: unknown): string[] | undefined {
+  if (typeof value === 'string') {
+    return parseTagList(value);
+  }
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string' && item.trim() !== '');
+  }
+  return undefined;
+}
+
+function toTimestamp(value: unknown): number | undefined {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return value;
+  }
+  if (typeof value === 'string' && value.trim()) {
+    const parsed = Date.parse(value);
+    return isNaN(parsed) ? undefined : parsed;
+  }
+  return undefined;
+}
@@ -0,0 +1,294 @@
+import { mkdir, readdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { gunzip, gzip } from 'zlib';
+import { Collection, collectionOf } from '@/utils/collections';
+import { getEmbeddingProvider } from '@/utils/embeddingProviders';
+import { removeUnreferencedUploads, UPLOADS_DIR } from '@/utils/uploads';
+import { DocumentChunk, embeddingModelOf, getVectorStore, KnowledgeDocument } from '@/utils/vectorStore';
+
+const gzipAsync = promisify(gzip);
+const gunzipAsync = promisify(gunzip);
+
+/**
+ * Snapshots are gzipped JSONL: a header line, then one line per collection,
+ * document, chunk and (optionally) uploaded file. Bump the version whenever
+ * a line changes shape, and keep reading the older versions.
+ */
+export const SNAPSHOT_FORMAT = 'knowledge-base-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+export interface SnapshotHeader {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  exportedAt: number;
+  /** Chunk count per embedding model, so an importer knows whether to re-embed */
+  embeddingModels: Record<string, number>;
+  collections: number;
+  documents: number;
+  chunks: number;
+  files: number;
+}
+
+type SnapshotLine =
+  | { type: 'collection'; collection: Collection }
+  | { type: 'document'; document: KnowledgeDocument }
+  | { type: 'chunk'; chunk: DocumentChunk }
+  /** An original upload; `data` is base64 */
+  | { type: 'file'; fileId: string; filename: string; data: string };
+
+export interface Snapshot {
+  header: SnapshotHeader;
+  collections: Collection[];
+  documents: KnowledgeDocument[];
+  chunks: DocumentChunk[];
+  files: { fileId: string; filename: string; data: Buffer }[];
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportResult {
+  mode: ImportMode;
+  collections: number;
+  documentsAdded: number;
+  documentsUpdated: number;
+  /** Documents already stored unchanged, or whose chunks clash with stored ones */
+  documentsSkipped: number;
+  chunks: number;
+  files: number;
+  /** Set when the snapshot's embeddings need re-embedding before vector search works */
+  warning?: string;
+}
+
+/** Write the whole knowledge base, and optionally the original uploads, to a snapshot. */
+export async function exportSnapshot(options: { includeFiles?: boolean } = {}): Promise<Buffer> {
+  const store = getVectorStore();
+  const collections = await store.listCollections();
+  const documents = await store.listDocuments();
+  const chunks: DocumentChunk[] = [];
+  for await (const chunk of store.iterate()) {
+    chunks.push(chunk);
+  }
+
+  const files = options.includeFiles ? await readUploads(documents) : [];
+
+  const embeddingModels: Record<string, number> = {};
+  for (const chunk of chunks) {
+    const model = embeddingModelOf(chunk);
+    embeddingModels[model] = (embeddingModels[model] ?? 0) + 1;
+  }
+
+  const header: SnapshotHeader = {
+    format: SNAPSHOT_FORMAT,
+    version: SNAPSHOT_VERSION,
+    exportedAt: Date.now(),
+    embeddingModels,
+    collections: collections.length,
+    documents: documents.length,
+    chunks: chunks.length,
+    files: files.length,
+  };
+
+  const lines: string[] = [JSON.stringify(header)];
+  const push = (line: SnapshotLine) => lines.push(JSON.stringify(line));
+  collections.forEach(collection => push({ type: 'collection', collection }));
+  documents.forEach(document => push({ type: 'document', document }));
+  chunks.forEach(chunk => push({ type: 'chunk', chunk }));
+  files.forEach(({ fileId, filename, data }) =>
+    push({ type: 'file', fileId, filename, data: data.toString('base64') })
+  );
+
+  return gzipAsync(lines.join('\n') + '\n');
+}
+
+/**
+ * Read a snapshot, gzipped or plain. Throws if it is not a snapshot, was
+ * written by a newer version, holds a malformed chunk, or its documents and
+ * chunks do not line up.
+ */
+export async function parseSnapshot(data: Buffer): Promise<Snapshot> {
+  const isGzip = data.length > 2 && data[0] === 0x1f && data[1] === 0x8b;
+  const text = (isGzip ? await gunzipAsync(data) : data).toString('utf-8');
+  const [headerLine, ...lines] = text.split('\n').filter(line => line.trim());
+
+  let header: SnapshotHeader;
+  try {
+    header = JSON.parse(headerLine ?? '');
+  } catch {
+    throw new Error('Not a knowledge base snapshot');
+  }
+  if (header?.format !== SNAPSHOT_FORMAT) {
+    throw new Error('Not a knowledge base snapshot');
+  }
+  if (!(header.version >= 1 && header.version <= SNAPSHOT_VERSION)) {
+    throw new Error(`Unsupported snapshot version ${header.version}; this server reads up to version ${SNAPSHOT_VERSION}`);
+  }
+
+  const snapshot: Snapshot = { header, collections: [], documents: [], chunks: [], files: [] };
+  lines.forEach((text, i) => {
+    let line: SnapshotLine;
+    try {
+      line = JSON.parse(text);
+    } catch {
+      throw new Error(`Snapshot line ${i + 2} is not valid JSON`);
+    }
+    switch (line.type) {
+      case 'collection':
+        snapshot.collections.push(line.collection);
+        break;
+      case 'document':
+        snapshot.documents.push(line.document);
+        break;
+      case 'chunk':
+        if (!isValidChunk(line.chunk)) {
+          throw new Error(`Snapshot line ${i + 2} is not a valid chunk`);
+        }
+        snapshot.chunks.push(line.chunk);
+        break;
+      case 'file':
+        snapshot.files.push({ fileId: line.fileId, filename: line.filename, data: Buffer.from(line.data, 'base64') });
+        break;
+    }
+  });
+
+  const chunkIds = new Set(snapshot.chunks.map(chunk => chunk.id));
+  const broken = snapshot.documents.find(document => document.chunkIds.some(id => !chunkIds.has(id)));
+  if (broken) {
+    throw new Error(`Snapshot is incomplete: chunks of "${broken.title}" are missing`);
+  }
+
+  return snapshot;
+}
+
+/**
+ * Load a parsed snapshot into the knowledge base.
+ *
+ * `replace` swaps the whole store for the snapshot in one write. `merge`
+ * keeps what is stored: documents with the same id are updated if their
+ * content changed, documents already present in the same collection are
+ * skipped, and everything else is added alongside.
+ */
+export async function importSnapshot(
+  snapshot: Snapshot,
+  options: { mode: ImportMode; includeFiles?: boolean }
+): Promise<ImportResult> {
+  const store = getVectorStore();
+  const result: ImportResult = {
+    mode: options.mode,
+    collections: snapshot.collections.length,
+    documentsAdded: 0,
+    documentsUpdated: 0,
+    documentsSkipped: 0,
+    chunks: 0,
+    files: 0,
+  };
+
+  if (options.mode === 'replace') {
+    await store.restore(snapshot.chunks, snapshot.documents, snapshot.collections);
+    // Uploads of documents that were replaced away are no longer served by anything
+    await removeUnreferencedUploads(snapshot.documents);
+    result.documentsAdded = snapshot.documents.length;
+    result.chunks = snapshot.chunks.length;
+  } else {
+    const existingCollections = new Set((await store.listCollections()).map(collection => collection.name));
+    for (const collection of snapshot.collections) {
+      if (!existingCollections.has(collection.name)) {
+        await store.saveCollection(collection);
+      }
+    }
+
+    const chunksById = new Map(snapshot.chunks.map(chunk => [chunk.id, chunk]));
+    const stored = await store.listDocuments();
+    for (const document of snapshot.documents) {
+      const chunks = document.chunkIds.map(id => chunksById.get(id)!);
+      const sameId = stored.find(existing => existing.id === document.id);
+      const sameContent = stored.some(existing =>
+        existing.checksum === document.checksum && collectionOf(existing) === collectionOf(document)
+      );
+      const clashes = await Promise.all(chunks.map(async chunk => !!(await store.get(chunk.id))));
+
+      if (sameContent || clashes.some(Boolean)) {
+        result.documentsSkipped++;
+        continue;
+      }
+
+      if (sameId) {
+        await store.replaceDocuments([sameId.id], document, chunks);
+        result.documentsUpdated++;
+      } else {
+        await store.addDocument(document, chunks);
+        result.documentsAdded++;
+      }
+      result.chunks += chunks.length;
+    }
+  }
+
+  // Written once the import went through, so a rejected snapshot leaves no files behind
+  if (options.includeFiles) {
+    result.files = await writeUploads(snapshot.files);
+  }
+
+  const currentModel = getEmbeddingProvider().name;
+  const otherModels = Object.keys(snapshot.header.embeddingModels).filter(model => model !== currentModel);
+  if (otherModels.length > 0) {
+    result.warning = `The snapshot was embedded with ${otherModels.join(', ')} but this server uses ${currentModel}. ` +
+      'Vector search stays disabled until the knowledge base is re-embedded.';
+  }
+
+  return result;
+}
+
+function isValidChunk(chunk: unknown): chunk is DocumentChunk {
+  if (typeof chunk !== 'object' || chunk === null) return false;
+  const { id, content, embedding, metadata } = chunk as Partial<DocumentChunk>;
+  return typeof id === 'string' && id !== ''
+    && typeof content === 'string'
+    && Array.isArray(embedding) && embedding.length > 0
+    && embedding.every(value => typeof value === 'number' && Number.isFinite(value))
+    && typeof metadata === 'object' && metadata !== null
+    && typeof metadata.source === 'string'
+    && (metadata.type === 'document' || metadata.type === 'youtube');
+}
+
+/** The original uploads of these documents that are still on disk. */
+async function readUploads(
+  documents: KnowledgeDocument[]
+): Promise<{ fileId: string; filename: string; data: Buffer }[]> {
+  let filenames: string[];
+  try {
+    filenames = await readdir(UPLOADS_DIR);
+  } catch {
+    return [];
+  }
+
+  const files: { fileId: string; filename: string; data: Buffer }[] = [];
+  for (const document of documents) {
+    if (!document.file) continue;
+    // Uploads are stored as `<file id><extension>`
+    const filename = filenames.find(name => name.startsWith(document.file!.id));
+    if (!filename) continue;
+    files.push({
+      fileId: document.file.id,
+      filename,
+      data: await readFile(path.join(UPLOADS_DIR, filename)),
+    });
+  }
+  return files;
+}
+
+/** Restore uploads that are not on disk yet, returning how many were written. */
+async function writeUploads(files: Snapshot['files']): Promise<number> {
+  if (files.length === 0) return 0;
+  await mkdir(UPLOADS_DIR, { recursive: true });
+  const existing = new Set(await readdir(UPLOADS_DIR));
+
+  let written = 0;
+  for (const { filename, data } of files) {
+    // Never let a crafted name escape the uploads directory
+    const safeName = path.basename(filename);
+    if (existing.has(safeName)) continue;
+    await writeFile(path.join(UPLOADS_DIR, safeName), data);
+    written++;
+  }
+  return written;
+}
@@ -0,0 +1,253 @@
+/**
+ * Splits text into overlapping chunks for embedding. Every ingestion path
+ * goes through `splitText` so documents and transcripts are chunked the same
+ * way and can be tuned from one place.
+ *
+ * Strategies:
+ * - `character`: fixed-size windows, ending on whitespace where possible
+ * - `recursive`: splits on paragraphs, then lines, sentences and words, and
+ *   packs the pieces back together up to the chunk size
+ * - `token`: like `recursive`, but sizes are counted in approximate model tokens
+ * - `markdown`: splits into heading sections first and prefixes each chunk
+ *   with its heading trail, so a chunk keeps the context of where it came from
+ */
+
+export type SplitStrategy = 'character' | 'recursive' | 'token' | 'markdown';
+
+export interface SplitOptions {
+  strategy?: SplitStrategy;
+  /** Maximum chunk size, in tokens for the `token` strategy and characters otherwise */
+  chunkSize?: number;
+  /** How much of the previous chunk is repeated at the start of the next, same unit */
+  chunkOverlap?: number;
+  /** Chunks shorter than this many characters are dropped */
+  minChunkSize?: number;
+}
+
+const SPLIT_STRATEGIES: SplitStrategy[] = ['character', 'recursive', 'token', 'markdown'];
+
+const DEFAULT_STRATEGY = parseSplitStrategy(process.env.CHUNK_STRATEGY) ?? 'recursive';
+const DEFAULT_CHUNK_SIZE = Number(process.env.CHUNK_SIZE) || undefined;
+const DEFAULT_CHUNK_OVERLAP = process.env.CHUNK_OVERLAP !== undefined
+  ? Number(process.env.CHUNK_OVERLAP)
+  : undefined;
+
+// Defaults when CHUNK_SIZE / CHUNK_OVERLAP are unset
+const CHARACTER_DEFAULTS = { chunkSize: 1000, chunkOverlap: 200 };
+const TOKEN_DEFAULTS = { chunkSize: 250, chunkOverlap: 50 };
+
+// Coarsest first: paragraphs, lines, sentences (keeping their punctuation), words
+const SEPARATORS: { pattern: RegExp; joiner: string }[] = [
+  { pattern: /\n\s*\n/, joiner: '\n\n' },
+  { pattern: /\n/, joiner: '\n' },
+  { pattern: /(?<=[.!?])\s+/, joiner: ' ' },
+  { pattern: /\s+/, joiner: ' ' },
+];
+
+type Measure = (text: string) => number;
+
+export function parseSplitStrategy(value: unknown): SplitStrategy | undefined {
+  return SPLIT_STRATEGIES.includes(value as SplitStrategy) ? value as SplitStrategy : undefined;
+}
+
+/**
+ * Rough count of model tokens: about one per four characters of a word, and
+ * one per punctuation mark. Close enough to size chunks without a tokenizer.
+ */
+export function countTokens(text: string): number {
+  let count = 0;
+  for (const piece of text.match(/[A-Za-z0-9]+|[^\sA-Za-z0-9]/g) ?? []) {
+    count += Math.ceil(piece.length / 4);
+  }
+  return count;
+}
+
+export function splitText(text: string, options: SplitOptions = {}): string[] {
+  const strategy = options.strategy ?? DEFAULT_STRATEGY;
+  const defaults = strategy === 'token' ? TOKEN_DEFAULTS : CHARACTER_DEFAULTS;
+  const chunkSize = Math.max(1, options.chunkSize ?? DEFAULT_CHUNK_SIZE ?? defaults.chunkSize);
+  const chunkOverlap = Math.min(
+    Math.max(0, options.chunkOverlap ?? DEFAULT_CHUNK_OVERLAP ?? defaults.chunkOverlap),
+    Math.floor(chunkSize / 2)
+  );
+
+  let chunks: string[];
+  switch (strategy) {
+    case 'character':
+      chunks = splitCharacters(text, chunkSize, chunkOverlap);
+      break;
+    case 'token':
+      chunks = splitRecursive(text, chunkSize, chunkOverlap, countTokens);
+      break;
+    case 'markdown':
+      chunks = splitMarkdown(text, chunkSize, chunkOverlap);
+      break;
+    default:
+      chunks = splitRecursive(text, chunkSize, chunkOverlap, piece => piece.length);
+  }
+
+  const minChunkSize = options.minChunkSize ?? 0;
+  return chunks
+    .map(chunk => chunk.trim())
+    .filter(chunk => chunk.length > 0 && chunk.length >= minChunkSize);
+}
+
+function splitCharacters(text: string, chunkSize: number, chunkOverlap: number): string[] {
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < text.length) {
+    let end = Math.min(start + chunkSize, text.length);
+    if (end < text.length) {
+      // Back off to the last whitespace so words are not cut in half
+      const space = text.lastIndexOf(' ', end);
+      if (space > start + chunkSize / 2) end = space;
+    }
+    chunks.push(text.slice(start, end));
+    if (end >= text.length) break;
+
+    let next = Math.max(end - chunkOverlap, start + 1);
+    const space = text.indexOf(' ', next);
+    if (space !== -1 && space < end) next = space + 1;
+    start = next;
+  }
+
+  return chunks;
+}
+
+function splitRecursive(
+  text: string,
+  chunkSize: number,
+  chunkOverlap: number,
+  measure: Measure,
+  separators = SEPARATORS
+): string[] {
+  if (measure(text) <= chunkSize) {
+    return [text];
+  }
+
+  const index = separators.findIndex(separator => separator.pattern.test(text));
+  if (index === -1) {
+    return splitInHalves(text, chunkSize, measure);
+  }
+
+  const { pattern, joiner } = separators[index];
+  const finer = separators.slice(index + 1);
+  const chunks: string[] = [];
+  let fitting: string[] = [];
+
+  for (const piece of text.split(pattern).filter(piece => piece.trim())) {
+    if (measure(piece) <= chunkSize) {
+      fitting.push(piece);
+      continue;
+    }
+    chunks.push(...mergePieces(fitting, joiner, chunkSize, chunkOverlap, measure));
+    fitting = [];
+    chunks.push(...splitRecursive(piece, chunkSize, chunkOverlap, measure, finer));
+  }
+  chunks.push(...mergePieces(fitting, joiner, chunkSize, chunkOverlap, measure));
+
+  return chunks;
+}
+
+/**
+ * Pack consecutive pieces into chunks of at most `chunkSize`, starting each
+ * chunk with trailing pieces of the previous one up to `chunkOverlap`.
+ */
+function mergePieces(
+  pieces: string[],
+  joiner: string,
+  chunkSize: number,
+  chunkOverlap: number,
+  measure: Measure
+): string[] {
+  const chunks: string[] = [];
+  const joinerSize = measure(joiner);
+  const current: string[] = [];
+  let total = 0;
+
+  for (const piece of pieces) {
+    const size = measure(piece);
+    if (current.length > 0 && total + joinerSize + size > chunkSize) {
+      chunks.push(current.join(joiner));
+      while (current.length > 0 && (total > chunkOverlap || total + joinerSize + size > chunkSize)) {
+        total -= measure(current[0]) + (current.length > 1 ? joinerSize : 0);
+        current.shift();
+      }
+    }
+    total += (current.length > 0 ? joinerSize : 0) + size;
+    current.push(piece);
+  }
+
+  if (current.length > 0) {
+    chunks.push(current.join(joiner));
+  }
+
+  return chunks;
+}
+
+/** Last resort for text without any separator, such as a very long URL. */
+function splitInHalves(text: string, chunkSize: number, measure: Measure): string[] {
+  if (measure(text) <= chunkSize || text.length < 2) {
+    return [text];
+  }
+  const middle = Math.ceil(text.length / 2);
+  return [
+    ...splitInHalves(text.slice(0, middle), chunkSize, measure),
+    ...splitInHalves(text.slice(middle), chunkSize, measure),
+  ];
+}
+
+function splitMarkdown(text: string, chunkSize: number, chunkOverlap: number): string[] {
+  const chunks: string[] = [];
+
+  for (const section of markdownSections(text)) {
+    const prefix = section.headings.length > 0 ? `${section.headings.join(' > ')}\n\n` : '';
+    const bodySize = Math.max(chunkSize - prefix.length, Math.floor(chunkSize / 2));
+    const overlap = Math.min(chunkOverlap, Math.floor(bodySize / 2));
+    for (const chunk of splitRecursive(section.body, bodySize, overlap, piece => piece.length)) {
+      if (chunk.trim()) chunks.push(prefix + chunk.trim());
+    }
+  }
+
+  return chunks;
+}
+
+/**
+ * Break markdown into sections at headings, remembering the trail of parent
+ * headings. Lines inside fenced code blocks are never treated as headings.
+ */
+export function markdownSections(text: string): { headings: string[]; body: string }[] {
+  const sections: { headings: string[]; body: string }[] = [];
+  const trail: { level: number; title: string }[] = [];
+  let lines: string[] = [];
+  let inFence = false;
+
+  const flush = () => {
+    const body = lines.join('\n').trim();
+    if (body) sections.push({ headings: trail.map(heading => heading.title), body });
+    lines = [];
+  };
+
+  for (const line of text.split('\n')) {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inFence = !inFence;
+    }
+
+    const heading = inFence ? null : line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+    if (!heading) {
+      lines.push(line);
+      continue;
+    }
+
+    flush();
+    const level = heading[1].length;
+    while (trail.length > 0 && trail[trail.length - 1].level >= level) {
+      trail.pop();
+    }
+    trail.push({ level, title: heading[2] });
+  }
+  flush();
+
+  return sections;
+}
@@ -0,0 +1,57 @@
+import { mkdir, readdir, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import type { KnowledgeDocument } from '@/utils/vectorStore';
+
+/** Original uploads, stored as `{fileId}{extension}` and served from /api/files/{id}. */
+export const UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+
+type UploadedFile = NonNullable<KnowledgeDocument['file']>;
+
+// Upload file ids are UUIDs; other files in the directory, such as audio being transcribed, are not uploads
+const UPLOAD_NAME = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}(\.[^.]*)?$/i;
+
+function uploadPath(file: Pick<UploadedFile, 'id' | 'name'>): string {
+  return path.join(UPLOADS_DIR, `${file.id}${path.extname(file.name)}`);
+}
+
+export async function saveUploadedFile(file: Pick<UploadedFile, 'id' | 'name'>, data: Buffer): Promise<void> {
+  await mkdir(UPLOADS_DIR, { recursive: true });
+  await writeFile(uploadPath(file), data);
+}
+
+/**
+ * Delete the uploads of documents that left the knowledge base. A missing
+ * file is not an error, and a failure is only logged: the document is gone
+ * either way, and a stray file is better than a failed request.
+ */
+export async function removeUploadedFiles(files: (UploadedFile | undefined)[]): Promise<void> {
+  await Promise.all(files.map(async file => {
+    if (!file) return;
+    try {
+      await rm(uploadPath(file), { force: true });
+    } catch (error) {
+      console.error(`Could not delete uploaded file ${file.id}:`, error);
+    }
+  }));
+}
+
+/** Delete uploads that none of these documents refer to, returning how many were deleted. */
+export async function removeUnreferencedUploads(documents: KnowledgeDocument[]): Promise<number> {
+  let filenames: string[];
+  try {
+    filenames = await readdir(UPLOADS_DIR);
+  } catch {
+    return 0;
+  }
+
+  const referenced = new Set(documents.flatMap(document => document.file ? [document.file.id] : []));
+  const unreferenced = filenames.filter(name => UPLOAD_NAME.test(name) && !referenced.has(path.parse(name).name));
+  await Promise.all(unreferenced.map(async name => {
+    try {
+      await rm(path.join(UPLOADS_DIR, name), { force: true });
+    } catch (error) {
+      console.error(`Could not delete uploaded file ${name}:`, error);
+    }
+  }));
+  return unreferenced.length;
+}
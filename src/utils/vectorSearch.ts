@@ -1,145 +1,663 @@
-import { openai } from '@ai-sdk/openai';
-import { embed } from 'ai';
+import { createHash } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { Collection, collectionOf, DEFAULT_COLLECTION, parseCollectionName } from '@/utils/collections';
+import { createEmbedding, createEmbeddings } from '@/utils/embeddings';
+import { getEmbeddingProvider } from '@/utils/embeddingProviders';
+import { dot, normalizeVector } from '@/utils/hnswIndex';
+import { exactTerms, tokenize } from '@/utils/keywordIndex';
+import { parseSearchFilter } from '@/utils/searchFilters';
+import { splitText, SplitOptions } from '@/utils/textSplitter';
+import { removeUploadedFiles } from '@/utils/uploads';
+import {
+  DocumentChunk,
+  embeddingModelOf,
+  getVectorStore,
+  KnowledgeDocument,
+  VectorQueryOptions,
+  VectorSearchResult,
+  VectorStoreStats,
+} from '@/utils/vectorStore';
 
-export interface DocumentChunk {
-  id: string;
-  content: string;
-  embedding: number[];
-  metadata: {
-    source: string;
-    type: 'document' | 'youtube';
-    title?: string;
-    timestamp?: number;
-    url?: string; // For YouTube videos or document download links
-    pageNumber?: number; // For document page references
-    chunkIndex?: number; // For referencing specific chunks
-  };
+export type { DocumentChunk, KnowledgeDocument } from '@/utils/vectorStore';
+export { createEmbedding } from '@/utils/embeddings';
+
+export interface AddDocumentResult {
+  message: string;
+  documentId: string;
+  chunksAdded: number;
+  chunksFailed: number;
+  errors: string[];
+  /** The same content was already stored; nothing was added */
+  duplicate: boolean;
+  /** Earlier versions that were swapped out for this one */
+  replacedDocumentIds: string[];
 }
 
-// In-memory storage for demo purposes
-// In production, you'd use a proper vector database like Pinecone, Weaviate, or Chroma
-let documentStore: DocumentChunk[] = [];
+/** Details recorded on the document rather than on each chunk. */
+export interface DocumentOptions {
+  videoId?: KnowledgeDocument['videoId'];
+  file?: KnowledgeDocument['file'];
+  /** Checksum of the original text; defaults to a hash of the chunks */
+  checksum?: string;
+  /**
+   * Replace earlier versions of the same video, file name or source instead
+   * of storing this one alongside them.
+   */
+  replaceExisting?: boolean;
+  /** Store the content even if it is already stored, e.g. to split it again with new settings */
+  reingest?: boolean;
+}
 
-export async function createEmbedding(text: string): Promise<number[]> {
-  const result = await embed({
-    model: openai.embedding('text-embedding-3-small'),
-    value: text,
-  });
-  
-  return result.embedding;
+/** A part of a document that is split on its own, such as one page of a PDF. */
+export interface TextSection {
+  content: string;
+  /** Recorded on every chunk split from this section, e.g. its page number */
+  metadata?: Partial<DocumentChunk['metadata']>;
 }
 
+/**
+ * Split text into chunks and store them as one document. Sections are split
+ * separately so no chunk straddles two of them and each chunk keeps the
+ * metadata of the section it came from. With `split: false` the sections are
+ * stored as they are, for sections that were already cut to chunk size, such
+ * as source code split at function boundaries.
+ */
 export async function addDocument(
-  content: string,
-  metadata: DocumentChunk['metadata']
-): Promise<string> {
-  const chunks = chunkText(content, 1000); // Split into 1000-character chunks
+  content: string | TextSection[],
+  metadata: DocumentChunk['metadata'],
+  options: DocumentOptions & { split?: SplitOptions | false } = {}
+): Promise<AddDocumentResult> {
+  const { split, ...documentOptions } = options;
+  const sections = typeof content === 'string' ? [{ content }] : content;
+  const chunks = split === false ? sections : sections.flatMap(section =>
+    splitText(section.content, split).map(text => ({ content: text, metadata: section.metadata }))
+  );
+  const fullText = typeof content === 'string' ? content : content.map(section => section.content).join('\n\n');
+  return addDocumentChunks(chunks, metadata, { checksum: hashContent(fullText), ...documentOptions });
+}
+
+/**
+ * Embed and store text that has already been split into chunks, recording
+ * them as one document. Content that is already stored is not added again
+ * unless `reingest` is set. `replaceExisting` swaps earlier versions out
+ * atomically when the content changed, reusing the embeddings of chunks that
+ * did not. Chunks whose
+ * embedding batch failed are skipped and counted in the result. Chunks given
+ * as sections add their own metadata to the document's.
+ */
+export async function addDocumentChunks(
+  input: (string | TextSection)[],
+  metadata: DocumentChunk['metadata'],
+  options: DocumentOptions = {}
+): Promise<AddDocumentResult> {
+  const store = getVectorStore();
+  const chunks = input.map(chunk => typeof chunk === 'string' ? chunk : chunk.content);
+  const chunkMetadata = input.map(chunk => typeof chunk === 'string' ? undefined : chunk.metadata);
+  const checksum = options.checksum ?? hashContent(chunks.join('\n'));
+  const collection = metadata.collection ?? DEFAULT_COLLECTION;
+  // The default collection is recorded as no collection, like legacy documents
+  const storedCollection = collection === DEFAULT_COLLECTION ? undefined : collection;
+  const duplicate = options.reingest ? undefined : await findDocumentByChecksum(checksum, collection)
+    ?? (options.file?.checksum ? await findDocumentByChecksum(options.file.checksum, collection) : undefined);
+  if (duplicate) {
+    return {
+      documentId: duplicate.id,
+      message: `${metadata.title || metadata.source} is already in the knowledge base`,
+      chunksAdded: 0,
+      chunksFailed: 0,
+      errors: [],
+      duplicate: true,
+      replacedDocumentIds: [],
+    };
+  }
+  
+  const provider = getEmbeddingProvider();
+  // A partially embedded earlier attempt is always replaced rather than kept alongside
+  const previousVersions = (await store.listDocuments()).filter(document =>
+    (options.replaceExisting || document.partial)
+    && collectionOf(document) === collection
+    && isSameSource(document, metadata, options)
+  );
+  
+  // Unchanged chunks of the previous version keep their embeddings
+  const knownEmbeddings = new Map<string, number[]>();
+  for (const version of previousVersions) {
+    for (const id of version.chunkIds) {
+      const chunk = await store.get(id);
+      if (chunk?.metadata.contentHash && embeddingModelOf(chunk) === provider.name) {
+        knownEmbeddings.set(chunk.metadata.contentHash, chunk.embedding);
+      }
+    }
+  }
+  
+  const hashes = chunks.map(chunk => hashContent(chunk));
+  const toEmbed = chunks
+    .map((chunk, i) => ({ chunk, i }))
+    .filter(({ i }) => !knownEmbeddings.has(hashes[i]));
+  const { embeddings, failures } = await createEmbeddings(toEmbed.map(({ chunk }) => chunk));
+  const embeddingsByIndex = new Map<number, number[] | null>(
+    toEmbed.map(({ i }, position) => [i, embeddings[position]])
+  );
+  
+  const documentId = previousVersions[0]?.id ?? uuidv4();
+  const documentChunks: DocumentChunk[] = [];
   
   for (let i = 0; i < chunks.length; i++) {
-    const chunk = chunks[i];
-    const embedding = await createEmbedding(chunk);
+    const embedding = knownEmbeddings.get(hashes[i]) ?? embeddingsByIndex.get(i);
+    if (!embedding) continue; // Reported through failures below
     
     const documentChunk: DocumentChunk = {
-      id: `${metadata.source}-${i}`,
-      content: chunk,
+      id: uuidv4(),
+      content: chunks[i],
       embedding,
       metadata: {
         ...metadata,
+        ...chunkMetadata[i],
+        collection: storedCollection,
         timestamp: Date.now(),
         chunkIndex: i,
+        documentId,
+        contentHash: hashes[i],
+        embeddingModel: provider.name,
+        embeddingDimensions: embedding.length,
       },
     };
     
-    documentStore.push(documentChunk);
+    documentChunks.push(documentChunk);
+  }
+  
+  const errors = failures.map(failure => failure.error);
+  if (documentChunks.length === 0 && errors.length > 0) {
+    throw new Error(`Failed to embed ${metadata.source}: ${errors[0]}`);
   }
   
-  return `Added ${chunks.length} chunks from ${metadata.source}`;
+  const chunksFailed = chunks.length - documentChunks.length;
+  const now = Date.now();
+  const document: KnowledgeDocument = {
+    id: documentId,
+    title: metadata.title || metadata.source,
+    type: metadata.type,
+    source: metadata.source,
+    url: metadata.url,
+    videoId: options.videoId,
+    file: options.file,
+    checksum,
+    partial: chunksFailed > 0 || undefined,
+    tags: metadata.tags,
+    collection: storedCollection,
+    createdAt: Math.min(now, ...previousVersions.map(version => version.createdAt)),
+    updatedAt: now,
+    chunkIds: documentChunks.map(chunk => chunk.id),
+  };
+  
+  // Store the whole document at once so searches never see half of it
+  const replacedDocumentIds = previousVersions.map(version => version.id);
+  if (replacedDocumentIds.length > 0) {
+    await store.replaceDocuments(replacedDocumentIds, document, documentChunks);
+    await removeUploadedFiles(previousVersions
+      .map(version => version.file)
+      .filter(file => file?.id !== options.file?.id));
+  } else {
+    await store.addDocument(document, documentChunks);
+  }
+  
+  const verb = replacedDocumentIds.length > 0 ? 'Replaced with' : 'Added';
+  return {
+    documentId,
+    message: chunksFailed > 0
+      ? `${verb} ${documentChunks.length} of ${chunks.length} chunks from ${metadata.source}`
+      : `${verb} ${chunks.length} chunks from ${metadata.source}`,
+    chunksAdded: documentChunks.length,
+    chunksFailed,
+    errors,
+    duplicate: false,
+    replacedDocumentIds,
+  };
+}
+
+/** SHA-256 of text or file bytes, used to recognise content already stored. */
+export function hashContent(content: string | Buffer): string {
+  return createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * The document in a collection whose text or uploaded file has this checksum.
+ * Partially embedded documents are left out so the content can be added again.
+ */
+export async function findDocumentByChecksum(
+  checksum: string,
+  collection: string = DEFAULT_COLLECTION
+): Promise<KnowledgeDocument | undefined> {
+  return (await getVectorStore().listDocuments())
+    .find(document =>
+      collectionOf(document) === collection
+      && !document.partial
+      && (document.checksum === checksum || document.file?.checksum === checksum)
+    );
 }
 
+/** Whether a stored document is an earlier version of the one being added. */
+function isSameSource(
+  document: KnowledgeDocument,
+  metadata: DocumentChunk['metadata'],
+  options: DocumentOptions
+): boolean {
+  if (options.videoId) return document.videoId === options.videoId;
+  if (options.file) return document.file?.name === options.file.name;
+  return document.source === metadata.source;
+}
+
+// Default weights for hybrid retrieval; a weight of 0 disables that retriever
+const DEFAULT_VECTOR_WEIGHT = Number(process.env.HYBRID_VECTOR_WEIGHT ?? 1);
+const DEFAULT_KEYWORD_WEIGHT = Number(process.env.HYBRID_KEYWORD_WEIGHT ?? 1);
+// Damping constant from the original reciprocal rank fusion paper
+const RRF_K = 60;
+// Chunks less similar to the query than this are not relevant enough to use.
+// Without an override the embedding provider suggests a threshold for its model.
+const MIN_SIMILARITY_OVERRIDE = process.env.SEARCH_MIN_SIMILARITY
+  ? Number(process.env.SEARCH_MIN_SIMILARITY)
+  : undefined;
+// Overlapping transcript chunks are near-duplicates, so diversify by default
+const DEFAULT_DIVERSITY: SearchDiversity = process.env.SEARCH_DIVERSITY === 'none' ? 'none' : 'mmr';
+const DEFAULT_MMR_LAMBDA = Number(process.env.MMR_LAMBDA ?? 0.7);
+
+export type SearchDiversity = 'none' | 'mmr';
+
+export interface SearchOptions extends VectorQueryOptions {
+  /** Weight of embedding similarity when fusing rankings */
+  vectorWeight?: number;
+  /** Weight of BM25 keyword relevance when fusing rankings */
+  keywordWeight?: number;
+  /** Drop results whose cosine similarity to the query is below this */
+  minSimilarity?: number;
+  /** `mmr` trades some relevance for results that differ from each other */
+  diversity?: SearchDiversity;
+  /** MMR balance between relevance (1) and diversity (0) */
+  mmrLambda?: number;
+}
+
+export interface SearchResult {
+  chunk: DocumentChunk;
+  /** Fused ranking score used to order results */
+  score: number;
+  /** Cosine similarity to the query, or undefined when vector search was disabled */
+  similarity?: number;
+}
+
+/**
+ * Find the chunks most relevant to a query by combining embedding similarity
+ * with BM25 keyword matching through reciprocal rank fusion. Results below the
+ * similarity threshold are dropped, so an unrelated query can return nothing.
+ */
 export async function searchSimilarDocuments(
   query: string,
-  topK: number = 3
-): Promise<DocumentChunk[]> {
-  if (documentStore.length === 0) {
+  topK: number = 3,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  const store = getVectorStore();
+  const storedModels = Object.keys(await store.embeddingModels());
+  if (storedModels.length === 0) {
     return [];
   }
   
-  const queryEmbedding = await createEmbedding(query);
+  // Similarities between vectors from different models are meaningless, so
+  // vector search is refused until the store has been re-embedded
+  const provider = getEmbeddingProvider();
+  const modelsMatch = storedModels.every(model => model === provider.name);
+  if (!modelsMatch) {
+    console.warn(
+      `Vector search disabled: the store holds embeddings from ${storedModels.join(', ')} ` +
+      `but queries use ${provider.name}. Re-embed the knowledge base from the admin dashboard.`
+    );
+  }
   
-  // Calculate cosine similarity for all documents
-  const similarities = documentStore.map(doc => ({
-    document: doc,
-    similarity: cosineSimilarity(queryEmbedding, doc.embedding),
-  }));
+  const vectorWeight = modelsMatch ? options.vectorWeight ?? DEFAULT_VECTOR_WEIGHT : 0;
+  const keywordWeight = options.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT;
+  const minSimilarity = options.minSimilarity
+    ?? MIN_SIMILARITY_OVERRIDE
+    ?? provider.minSimilarity;
+  // Each retriever contributes a deeper list so fusion has something to reorder
+  const candidateCount = Math.max(topK * 4, 20);
   
-  // Sort by similarity and return top K
-  return similarities
-    .sort((a, b) => b.similarity - a.similarity)
-    .slice(0, topK)
-    .map(item => item.document);
+  const rankings: WeightedRanking[] = [];
+  let queryVector: Float32Array | null = null;
+  if (vectorWeight > 0) {
+    const queryEmbedding = await createEmbedding(query);
+    queryVector = normalizeVector(queryEmbedding);
+    const results = await store.query(queryEmbedding, candidateCount, options);
+    rankings.push({ results, weight: vectorWeight });
+  }
+  if (keywordWeight > 0) {
+    rankings.push({
+      results: await store.keywordQuery(query, candidateCount, options.filter),
+      weight: keywordWeight,
+    });
+  }
+  
+  const queryTerms = keywordWeight > 0 ? exactTerms(query) : [];
+  const relevant = reciprocalRankFusion(rankings)
+    .map(result => ({
+      ...result,
+      similarity: queryVector
+        ? dot(queryVector, normalizeVector(result.chunk.embedding))
+        : undefined,
+    }))
+    // A chunk containing a part number from the query is kept however unlike
+    // the query it embeds; sharing an ordinary word is not enough
+    .filter(result =>
+      result.similarity === undefined
+      || result.similarity >= minSimilarity
+      || (queryTerms.length > 0 && tokenize(result.chunk.content).some(token => queryTerms.includes(token)))
+    );
+  
+  return selectResults(relevant, topK, options);
+}
+
+/**
+ * Search with several phrasings of one question and merge the results with
+ * reciprocal rank fusion, so chunks found by more of the queries rank higher.
+ * Each chunk keeps its best similarity to any of the queries.
+ */
+export async function searchWithQueries(
+  queries: string[],
+  topK: number = 3,
+  options: SearchOptions = {}
+): Promise<SearchResult[]> {
+  if (queries.length <= 1) {
+    return searchSimilarDocuments(queries[0] ?? '', topK, options);
+  }
+
+  const resultLists = await Promise.all(
+    queries.map(query => searchSimilarDocuments(query, topK, { ...options, diversity: 'none' }))
+  );
+
+  const similarities = new Map<string, number>();
+  for (const result of resultLists.flat()) {
+    if (result.similarity === undefined) continue;
+    similarities.set(
+      result.chunk.id,
+      Math.max(similarities.get(result.chunk.id) ?? -Infinity, result.similarity)
+    );
+  }
+
+  const merged = reciprocalRankFusion(resultLists.map(results => ({ results, weight: 1 })))
+    .map(result => ({ ...result, similarity: similarities.get(result.chunk.id) }));
+
+  return selectResults(merged, topK, options);
 }
 
-function chunkText(text: string, maxLength: number): string[] {
-  const chunks: string[] = [];
-  let currentChunk = '';
+/**
+ * Pick the final results from a ranked list, applying MMR when the options
+ * ask for diversity. `relevance` should return comparable values in [0, 1];
+ * by default it is the similarity, or the normalised fused score without one.
+ */
+export function selectResults<T extends SearchResult>(
+  results: T[],
+  count: number,
+  options: SearchOptions = {},
+  relevance?: (result: T) => number
+): T[] {
+  if ((options.diversity ?? DEFAULT_DIVERSITY) === 'none' || results.length <= 1) {
+    return results.slice(0, count);
+  }
   
-  const sentences = text.split(/[.!?]+/);
+  const maxScore = Math.max(...results.map(result => result.score)) || 1;
+  return maximalMarginalRelevance(
+    results,
+    count,
+    relevance ?? (result => result.similarity ?? result.score / maxScore),
+    options.mmrLambda ?? DEFAULT_MMR_LAMBDA
+  );
+}
+
+/**
+ * Maximal marginal relevance (Carbonell & Goldstein, 1998): repeatedly pick
+ * the result that best balances relevance against its similarity to the
+ * results already picked, so neighbouring overlapping chunks of one source
+ * do not crowd out other passages.
+ */
+export function maximalMarginalRelevance<T extends { chunk: DocumentChunk }>(
+  items: T[],
+  count: number,
+  relevance: (item: T) => number,
+  lambda: number
+): T[] {
+  const vectors = items.map(item => normalizeVector(item.chunk.embedding));
+  const relevances = items.map(relevance);
+  // Highest similarity of each item to anything selected so far
+  const redundancy = new Array(items.length).fill(0);
+  const remaining = new Set(items.keys());
+  const selected: T[] = [];
   
-  for (const sentence of sentences) {
-    if (currentChunk.length + sentence.length > maxLength) {
-      if (currentChunk.trim()) {
-        chunks.push(currentChunk.trim());
+  while (selected.length < count && remaining.size > 0) {
+    let best = -1;
+    let bestScore = -Infinity;
+    for (const i of remaining) {
+      const score = lambda * relevances[i] - (1 - lambda) * redundancy[i];
+      if (score > bestScore) {
+        best = i;
+        bestScore = score;
       }
-      currentChunk = sentence;
-    } else {
-      currentChunk += sentence + '.';
+    }
+    
+    remaining.delete(best);
+    selected.push(items[best]);
+    for (const i of remaining) {
+      redundancy[i] = Math.max(redundancy[i], dot(vectors[i], vectors[best]));
     }
   }
   
-  if (currentChunk.trim()) {
-    chunks.push(currentChunk.trim());
+  return selected;
+}
+
+export interface WeightedRanking {
+  results: VectorSearchResult[];
+  weight: number;
+}
+
+/**
+ * Merge several rankings of chunks into one. Each chunk scores the weighted sum
+ * of 1 / (RRF_K + rank) over the rankings it appears in, so only positions
+ * matter and scores from different retrievers never need to be comparable.
+ */
+export function reciprocalRankFusion(rankings: WeightedRanking[]): VectorSearchResult[] {
+  const fused = new Map<string, VectorSearchResult>();
+  
+  for (const { results, weight } of rankings) {
+    results.forEach((result, rank) => {
+      const existing = fused.get(result.chunk.id);
+      const score = weight / (RRF_K + rank + 1);
+      if (existing) {
+        existing.score += score;
+      } else {
+        fused.set(result.chunk.id, { chunk: result.chunk, score });
+      }
+    });
   }
   
-  return chunks;
+  return [...fused.values()].sort((a, b) => b.score - a.score);
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  const dotProduct = a.reduce((sum, val, i) => sum + val * b[i], 0);
-  const magnitudeA = Math.sqrt(a.reduce((sum, val) => sum + val * val, 0));
-  const magnitudeB = Math.sqrt(b.reduce((sum, val) => sum + val * val, 0));
+/**
+ * Read search options from an API request body, ignoring anything malformed
+ * so a bad tuning value never fails the chat request itself.
+ */
+export function parseSearchOptions(input: unknown): SearchOptions {
+  const options: SearchOptions = {};
+  if (!input || typeof input !== 'object') {
+    return options;
+  }
   
-  return dotProduct / (magnitudeA * magnitudeB);
+  const { vectorWeight, keywordWeight, minSimilarity, diversity, mmrLambda, filter } =
+    input as Record<string, unknown>;
+  if (isWeight(vectorWeight)) options.vectorWeight = vectorWeight;
+  if (isWeight(keywordWeight)) options.keywordWeight = keywordWeight;
+  if (typeof minSimilarity === 'number' && minSimilarity >= -1 && minSimilarity <= 1) {
+    options.minSimilarity = minSimilarity;
+  }
+  if (diversity === 'none' || diversity === 'mmr') options.diversity = diversity;
+  if (typeof mmrLambda === 'number' && mmrLambda >= 0 && mmrLambda <= 1) {
+    options.mmrLambda = mmrLambda;
+  }
+  options.filter = parseSearchFilter(filter);
+  
+  return options;
 }
 
-export function getDocumentStore(): DocumentChunk[] {
-  return documentStore;
+function isWeight(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
 }
 
-export function clearDocumentStore(): void {
-  documentStore = [];
+/** Every document in the knowledge base, newest first. */
+export async function listDocuments(): Promise<KnowledgeDocument[]> {
+  return (await getVectorStore().listDocuments())
+    .sort((a, b) => b.createdAt - a.createdAt);
 }
 
-export function removeDocument(documentId: string): boolean {
-  const index = documentStore.findIndex(doc => doc.id === documentId);
-  if (index !== -1) {
-    documentStore.splice(index, 1);
-    return true;
+export async function getDocument(
+  documentId: string
+): Promise<{ document: KnowledgeDocument; chunks: DocumentChunk[] } | undefined> {
+  const store = getVectorStore();
+  const document = await store.getDocument(documentId);
+  if (!document) return undefined;
+  
+  const chunks: DocumentChunk[] = [];
+  for (const id of document.chunkIds) {
+    const chunk = await store.get(id);
+    if (chunk) chunks.push(chunk);
   }
-  return false;
+  return { document, chunks };
+}
+
+/**
+ * The documents ingested from a YouTube video, by any of its URL forms,
+ * optionally only those in one collection.
+ */
+export async function findVideoDocuments(videoId: string, collection?: string): Promise<KnowledgeDocument[]> {
+  return (await getVectorStore().listDocuments())
+    .filter(document =>
+      document.videoId === videoId && (!collection || collectionOf(document) === collection)
+    );
+}
+
+/** Delete a document, all of its chunks and its uploaded file. */
+export async function deleteDocument(documentId: string): Promise<boolean> {
+  const store = getVectorStore();
+  const document = await store.getDocument(documentId);
+  if (!(await store.deleteDocument(documentId))) return false;
+  await removeUploadedFiles([document?.file]);
+  return true;
+}
+
+export interface CollectionSummary extends Collection {
+  documents: number;
+  chunks: number;
 }
 
-export function removeDocumentsBySource(source: string): number {
-  const initialLength = documentStore.length;
-  documentStore = documentStore.filter(doc => doc.metadata.source !== source);
-  return initialLength - documentStore.length;
+/**
+ * Every collection with its size, by name. The default collection is always
+ * listed, as is any collection that still holds documents without a record.
+ */
+export async function listCollections(): Promise<CollectionSummary[]> {
+  const store = getVectorStore();
+  const summaries = new Map<string, CollectionSummary>();
+  const summaryFor = (name: string) => {
+    let summary = summaries.get(name);
+    if (!summary) {
+      summary = { name, createdAt: 0, documents: 0, chunks: 0 };
+      summaries.set(name, summary);
+    }
+    return summary;
+  };
+  
+  summaryFor(DEFAULT_COLLECTION);
+  for (const collection of await store.listCollections()) {
+    Object.assign(summaryFor(collection.name), collection);
+  }
+  for (const document of await store.listDocuments()) {
+    const summary = summaryFor(collectionOf(document));
+    summary.documents++;
+    summary.chunks += document.chunkIds.length;
+  }
+  
+  return [...summaries.values()].sort((a, b) => a.name.localeCompare(b.name));
 }
 
-export function getDocumentStats() {
-  const stats = {
-    total: documentStore.length,
-    documents: documentStore.filter(d => d.metadata.type === 'document').length,
-    youtube: documentStore.filter(d => d.metadata.type === 'youtube').length,
-    sources: new Set(documentStore.map(d => d.metadata.source)).size,
+/** Create an empty collection. Fails if the name is invalid or already taken. */
+export async function createCollection(name: string, description?: string): Promise<Collection> {
+  const validName = parseCollectionName(name);
+  if (!validName) {
+    throw new Error(`Invalid collection name: ${name}`);
+  }
+  if ((await listCollections()).some(collection => collection.name === validName)) {
+    throw new Error(`Collection ${validName} already exists`);
+  }
+  
+  const collection: Collection = {
+    name: validName,
+    description: description?.trim() || undefined,
+    createdAt: Date.now(),
   };
-  return stats;
+  await getVectorStore().saveCollection(collection);
+  return collection;
+}
+
+/**
+ * Delete a collection and everything in it, including uploaded files,
+ * returning how many documents were removed. The default collection cannot
+ * be deleted.
+ */
+export async function deleteCollection(name: string): Promise<number> {
+  if (name === DEFAULT_COLLECTION) {
+    throw new Error('The default collection cannot be deleted');
+  }
+  const store = getVectorStore();
+  const documents = (await store.listDocuments()).filter(document => collectionOf(document) === name);
+  const removed = await store.deleteCollection(name);
+  await removeUploadedFiles(documents.map(document => document.file));
+  return removed;
+}
+
+/**
+ * The collection an ingestion request targets: the default one when none
+ * is given, or undefined if the named collection does not exist.
+ */
+export async function resolveCollection(value: unknown): Promise<string | undefined> {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_COLLECTION;
+  }
+  const name = parseCollectionName(value);
+  if (!name) return undefined;
+  return (await listCollections()).some(collection => collection.name === name) ? name : undefined;
+}
+
+export async function listChunks(): Promise<DocumentChunk[]> {
+  return findChunks(() => true);
+}
+
+export async function findChunks(
+  predicate: (chunk: DocumentChunk) => boolean
+): Promise<DocumentChunk[]> {
+  const matches: DocumentChunk[] = [];
+  for await (const chunk of getVectorStore().iterate()) {
+    if (predicate(chunk)) {
+      matches.push(chunk);
+    }
+  }
+  return matches;
+}
+
+export async function clearDocumentStore(): Promise<void> {
+  const store = getVectorStore();
+  const documents = await store.listDocuments();
+  await store.clear();
+  await removeUploadedFiles(documents.map(document => document.file));
+}
+
+export async function removeDocumentsBySource(source: string): Promise<number> {
+  return getVectorStore().deleteBySource(source);
+}
+
+export async function getDocumentStats(): Promise<VectorStoreStats> {
+  return getVectorStore().stats();
 }
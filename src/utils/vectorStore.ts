@@ -0,0 +1,836 @@
+import { createHash, randomUUID } from 'crypto';
+import { appendFile, mkdir, readFile, rename, writeFile } from 'fs/promises';
+import path from 'path';
+import { dot, HnswIndex, normalizeVector } from '@/utils/hnswIndex';
+import { Bm25Index } from '@/utils/keywordIndex';
+import { Collection, collectionOf } from '@/utils/collections';
+import { isEmptyFilter, matchesFilter, SearchFilter } from '@/utils/searchFilters';
+
+// Search tuning, overridable through the environment. `exact` disables the
+// ANN index entirely; otherwise it is only used once the store is large enough
+// for a full scan to be slow.
+const SEARCH_MODE = process.env.VECTOR_SEARCH_MODE || 'ann';
+const ANN_MIN_CHUNKS = Number(process.env.ANN_MIN_CHUNKS) || 1000;
+
+export interface DocumentChunk {
+  id: string;
+  content: string;
+  embedding: number[];
+  metadata: {
+    source: string;
+    type: 'document' | 'youtube';
+    title?: string;
+    timestamp?: number;
+    url?: string; // For YouTube videos or document download links
+    pageNumber?: number; // For document page references
+    section?: string; // Trail of headings the chunk sits under, e.g. "Wiring > Motors"
+    columns?: string[]; // Column names, for chunks of tabular files such as CSV
+    filePath?: string; // Path of a source code file, e.g. "firmware/src/drive.cpp"
+    language?: string; // Language of a source code chunk, e.g. "cpp" or "python"
+    startLine?: number; // First line of a source code chunk in its file
+    endLine?: number; // Last line of a source code chunk in its file
+    chunkIndex?: number; // For referencing specific chunks
+    tags?: string[]; // Free-form labels used to filter searches
+    collection?: string; // The collection the chunk's document belongs to
+    documentId?: string; // The KnowledgeDocument this chunk was split from
+    contentHash?: string; // SHA-256 of the content, to reuse embeddings of unchanged chunks
+    embeddingModel?: string; // Provider and model that produced the embedding
+    embeddingDimensions?: number;
+  };
+}
+
+/**
+ * One ingested source (an uploaded file or a video transcript) and the ids of
+ * the chunks it was split into. Deleting a document deletes all its chunks.
+ */
+export interface KnowledgeDocument {
+  id: string;
+  title: string;
+  type: DocumentChunk['metadata']['type'];
+  /** The `source` shared by the document's chunks */
+  source: string;
+  url?: string;
+  /** YouTube video id, so a video is found regardless of how its URL was written */
+  videoId?: string;
+  /** The original upload, served from /api/files/{id} */
+  file?: {
+    id: string;
+    name: string;
+    mimeType: string;
+    size: number;
+    /** SHA-256 of the uploaded bytes */
+    checksum?: string;
+  };
+  /** SHA-256 of the ingested text */
+  checksum: string;
+  /** Some chunks failed to embed, so uploading the same content again is not a duplicate */
+  partial?: boolean;
+  tags?: string[];
+  /** Unset for the default collection */
+  collection?: string;
+  createdAt: number;
+  updatedAt: number;
+  chunkIds: string[];
+}
+
+export interface VectorSearchResult {
+  chunk: DocumentChunk;
+  score: number;
+}
+
+export interface VectorQueryOptions {
+  /** Scan every chunk instead of using the ANN index */
+  exact?: boolean;
+  /** Only return chunks matching this filter */
+  filter?: SearchFilter;
+}
+
+export interface VectorStoreStats {
+  total: number;
+  documents: number;
+  youtube: number;
+  sources: number;
+  /** Chunk count per embedding model; more than one key means a migration is needed */
+  embeddingModels: Record<string, number>;
+}
+
+// Chunks stored before the model was recorded were all embedded with this one
+export const LEGACY_EMBEDDING_MODEL = 'openai:text-embedding-3-small';
+
+export function embeddingModelOf(chunk: DocumentChunk): string {
+  return chunk.metadata.embeddingModel ?? LEGACY_EMBEDDING_MODEL;
+}
+
+/**
+ * Storage backend for embedded document chunks.
+ * Implementations decide where chunks live; callers only see this contract.
+ */
+export interface VectorStore {
+  /** Add new chunks. Fails if a chunk id is already stored. */
+  add(chunks: DocumentChunk[]): Promise<void>;
+  /** Add a document record together with its new chunks, as one change. */
+  addDocument(document: KnowledgeDocument, chunks: DocumentChunk[]): Promise<void>;
+  /**
+   * Delete documents and add their new version as one change, so searches
+   * see either the old chunks or the new ones, never both or neither.
+   */
+  replaceDocuments(documentIds: string[], document: KnowledgeDocument, chunks: DocumentChunk[]): Promise<void>;
+  /** Add chunks, replacing any stored chunk with the same id. */
+  upsert(chunks: DocumentChunk[]): Promise<void>;
+  /** Return the topK chunks most similar to the query embedding. */
+  query(embedding: number[], topK: number, options?: VectorQueryOptions): Promise<VectorSearchResult[]>;
+  /** Return the topK chunks ranked by BM25 keyword relevance to the text. */
+  keywordQuery(text: string, topK: number, filter?: SearchFilter): Promise<VectorSearchResult[]>;
+  get(id: string): Promise<DocumentChunk | undefined>;
+  /** Delete chunks by id, returning how many were removed. */
+  delete(ids: string[]): Promise<number>;
+  /** Delete every chunk of a source, returning how many were removed. */
+  deleteBySource(source: string): Promise<number>;
+  getDocument(id: string): Promise<KnowledgeDocument | undefined>;
+  listDocuments(): Promise<KnowledgeDocument[]>;
+  /** Delete a document and all of its chunks, returning false if it is unknown. */
+  deleteDocument(id: string): Promise<boolean>;
+  listCollections(): Promise<Collection[]>;
+  /** Create a collection, or update the one with the same name. */
+  saveCollection(collection: Collection): Promise<void>;
+  /**
+   * Delete a collection together with all of its documents and chunks,
+   * returning how many documents were removed.
+   */
+  deleteCollection(name: string): Promise<number>;
+  clear(): Promise<void>;
+  /** Replace everything in the store, collections included, as one change. */
+  restore(chunks: DocumentChunk[], documents: KnowledgeDocument[], collections: Collection[]): Promise<void>;
+  stats(): Promise<VectorStoreStats>;
+  /** How many chunks each embedding model produced, without scanning the chunks; empty if nothing is stored. */
+  embeddingModels(): Promise<Record<string, number>>;
+  iterate(): AsyncIterableIterator<DocumentChunk>;
+}
+
+/**
+ * Keeps chunks in process memory. Everything is lost when the server restarts,
+ * which makes it suitable for tests and throwaway demos.
+ */
+export class InMemoryVectorStore implements VectorStore {
+  protected chunks = new Map<string, DocumentChunk>();
+  protected documents = new Map<string, KnowledgeDocument>();
+  protected collections = new Map<string, Collection>();
+  // Normalised copies of each embedding, shared with the ANN index
+  private vectors = new Map<string, Float32Array>();
+  // Built on the first ANN query, then kept up to date incrementally
+  private annIndex: HnswIndex | null = null;
+  private keywordIndex = new Bm25Index();
+  // Chunk counts per embedding model, kept in step with every change
+  private modelCounts = new Map<string, number>();
+
+  async add(chunks: DocumentChunk[]): Promise<void> {
+    this.assertNewIds(chunks);
+    this.applyUpsert(chunks);
+  }
+
+  async addDocument(document: KnowledgeDocument, chunks: DocumentChunk[]): Promise<void> {
+    this.assertNewIds(chunks);
+    this.applyUpsert(chunks, [document]);
+  }
+
+  async replaceDocuments(
+    documentIds: string[],
+    document: KnowledgeDocument,
+    chunks: DocumentChunk[]
+  ): Promise<void> {
+    this.assertNewIds(chunks);
+    this.applyReplace(documentIds, chunks, [document]);
+  }
+
+  async upsert(chunks: DocumentChunk[]): Promise<void> {
+    this.applyUpsert(chunks);
+  }
+
+  async query(
+    embedding: number[],
+    topK: number,
+    options: VectorQueryOptions = {}
+  ): Promise<VectorSearchResult[]> {
+    const storedDimensions = this.vectors.values().next().value?.length;
+    if (storedDimensions !== undefined && storedDimensions !== embedding.length) {
+      throw new Error(
+        `Query embedding has ${embedding.length} dimensions but the store holds ${storedDimensions}-dimensional embeddings`
+      );
+    }
+
+    const queryVector = normalizeVector(embedding);
+    const useAnn = !options.exact && SEARCH_MODE === 'ann' && this.chunks.size >= ANN_MIN_CHUNKS;
+    const accept = this.filterPredicate(options.filter);
+
+    const matches = useAnn
+      ? this.getAnnIndex().search(queryVector, topK, undefined, accept)
+      : this.exactSearch(queryVector, topK, accept);
+
+    return matches.map(match => ({ chunk: this.chunks.get(match.id)!, score: match.score }));
+  }
+
+  async keywordQuery(text: string, topK: number, filter?: SearchFilter): Promise<VectorSearchResult[]> {
+    return this.keywordIndex.search(text, topK, this.filterPredicate(filter))
+      .map(match => ({ chunk: this.chunks.get(match.id)!, score: match.score }));
+  }
+
+  async get(id: string): Promise<DocumentChunk | undefined> {
+    return this.chunks.get(id);
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    return this.applyDelete(ids);
+  }
+
+  async deleteBySource(source: string): Promise<number> {
+    return this.applyDelete(this.idsForSource(source));
+  }
+
+  async getDocument(id: string): Promise<KnowledgeDocument | undefined> {
+    return this.documents.get(id);
+  }
+
+  async listDocuments(): Promise<KnowledgeDocument[]> {
+    return [...this.documents.values()];
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    return this.applyDeleteDocuments([id]) > 0;
+  }
+
+  async listCollections(): Promise<Collection[]> {
+    return [...this.collections.values()];
+  }
+
+  async saveCollection(collection: Collection): Promise<void> {
+    this.applyUpsert([], [], [collection]);
+  }
+
+  async deleteCollection(name: string): Promise<number> {
+    return this.applyDeleteCollection(name);
+  }
+
+  async clear(): Promise<void> {
+    this.applyClear();
+  }
+
+  async restore(
+    chunks: DocumentChunk[],
+    documents: KnowledgeDocument[],
+    collections: Collection[]
+  ): Promise<void> {
+    this.takeOver(this.buildStore(chunks, documents, collections));
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    const chunks = [...this.chunks.values()];
+    return {
+      total: chunks.length,
+      documents: chunks.filter(c => c.metadata.type === 'document').length,
+      youtube: chunks.filter(c => c.metadata.type === 'youtube').length,
+      sources: new Set(chunks.map(c => c.metadata.source)).size,
+      embeddingModels: Object.fromEntries(this.modelCounts),
+    };
+  }
+
+  async embeddingModels(): Promise<Record<string, number>> {
+    return Object.fromEntries(this.modelCounts);
+  }
+
+  async *iterate(): AsyncIterableIterator<DocumentChunk> {
+    // Snapshot the values so callers may delete while iterating
+    for (const chunk of [...this.chunks.values()]) {
+      yield chunk;
+    }
+  }
+
+  protected assertNewIds(chunks: DocumentChunk[]): void {
+    const duplicate = chunks.find(chunk => this.chunks.has(chunk.id));
+    if (duplicate) {
+      throw new Error(`Chunk ${duplicate.id} already exists in the vector store`);
+    }
+  }
+
+  protected idsForSource(source: string): string[] {
+    return [...this.chunks.values()]
+      .filter(chunk => chunk.metadata.source === source)
+      .map(chunk => chunk.id);
+  }
+
+  protected applyUpsert(
+    chunks: DocumentChunk[],
+    documents: KnowledgeDocument[] = [],
+    collections: Collection[] = []
+  ): void {
+    for (const collection of collections) {
+      this.collections.set(collection.name, collection);
+    }
+    for (const document of documents) {
+      this.documents.set(document.id, document);
+    }
+    const indexedDimensions = this.vectors.values().next().value?.length;
+    for (const chunk of chunks) {
+      const vector = normalizeVector(chunk.embedding);
+      // A different vector size means the embedding model changed; rebuild the index lazily
+      if (this.annIndex && vector.length !== indexedDimensions) {
+        this.annIndex = null;
+      }
+      const replaced = this.chunks.get(chunk.id);
+      if (replaced) this.countModel(replaced, -1);
+      this.countModel(chunk, 1);
+      this.chunks.set(chunk.id, chunk);
+      this.vectors.set(chunk.id, vector);
+      this.annIndex?.add(chunk.id, vector);
+      this.keywordIndex.add(chunk.id, chunk.content);
+    }
+  }
+
+  protected applyDelete(ids: string[]): number {
+    let removed = 0;
+    const parents = new Set<string>();
+    for (const id of ids) {
+      const chunk = this.chunks.get(id);
+      if (!chunk) continue;
+
+      this.chunks.delete(id);
+      this.countModel(chunk, -1);
+      this.vectors.delete(id);
+      this.annIndex?.remove(id);
+      this.keywordIndex.remove(id);
+      if (chunk.metadata.documentId) parents.add(chunk.metadata.documentId);
+      removed++;
+    }
+
+    // Keep parent documents in step, dropping those left without chunks
+    for (const documentId of parents) {
+      const document = this.documents.get(documentId);
+      if (!document) continue;
+      const chunkIds = document.chunkIds.filter(id => this.chunks.has(id));
+      if (chunkIds.length === 0) {
+        this.documents.delete(documentId);
+      } else {
+        this.documents.set(documentId, { ...document, chunkIds });
+      }
+    }
+    return removed;
+  }
+
+  /** Delete documents and their chunks, returning how many documents were removed. */
+  protected applyDeleteDocuments(documentIds: string[]): number {
+    let removed = 0;
+    for (const documentId of documentIds) {
+      const document = this.documents.get(documentId);
+      if (!document) continue;
+      this.applyDelete(document.chunkIds);
+      this.documents.delete(documentId);
+      removed++;
+    }
+    return removed;
+  }
+
+  /** Delete a collection and everything in it, returning how many documents were removed. */
+  protected applyDeleteCollection(name: string): number {
+    const documentIds = [...this.documents.values()]
+      .filter(document => collectionOf(document) === name)
+      .map(document => document.id);
+    const removed = this.applyDeleteDocuments(documentIds);
+    this.collections.delete(name);
+    return removed;
+  }
+
+  protected applyReplace(
+    documentIds: string[],
+    chunks: DocumentChunk[],
+    documents: KnowledgeDocument[]
+  ): void {
+    this.applyDeleteDocuments(documentIds);
+    this.applyUpsert(chunks, documents);
+  }
+
+  /**
+   * Create document records for chunks stored before documents existed,
+   * grouping them by source. Returns true if anything was adopted.
+   */
+  protected adoptOrphanChunks(): boolean {
+    const orphansBySource = new Map<string, DocumentChunk[]>();
+    for (const chunk of this.chunks.values()) {
+      if (chunk.metadata.documentId && this.documents.has(chunk.metadata.documentId)) continue;
+      const group = orphansBySource.get(chunk.metadata.source) ?? [];
+      group.push(chunk);
+      orphansBySource.set(chunk.metadata.source, group);
+    }
+
+    for (const [source, group] of orphansBySource) {
+      group.sort((a, b) => (a.metadata.chunkIndex ?? 0) - (b.metadata.chunkIndex ?? 0));
+      const { metadata } = group[0];
+      const createdAt = metadata.timestamp ?? Date.now();
+      const document: KnowledgeDocument = {
+        id: randomUUID(),
+        title: metadata.title || source,
+        type: metadata.type,
+        source,
+        url: metadata.url,
+        videoId: metadata.type === 'youtube' ? extractVideoId(metadata.url || source) : undefined,
+        checksum: createHash('sha256').update(group.map(chunk => chunk.content).join('\n')).digest('hex'),
+        tags: metadata.tags,
+        collection: metadata.collection,
+        createdAt,
+        updatedAt: createdAt,
+        chunkIds: group.map(chunk => chunk.id),
+      };
+      for (const chunk of group) {
+        chunk.metadata.documentId = document.id;
+      }
+      this.documents.set(document.id, document);
+    }
+
+    return orphansBySource.size > 0;
+  }
+
+  private countModel(chunk: DocumentChunk, delta: number): void {
+    const model = embeddingModelOf(chunk);
+    const count = (this.modelCounts.get(model) ?? 0) + delta;
+    if (count > 0) {
+      this.modelCounts.set(model, count);
+    } else {
+      this.modelCounts.delete(model);
+    }
+  }
+
+  /**
+   * A separate store holding exactly these contents. Building it throws on
+   * chunks that cannot be indexed, before anything in this store changes.
+   */
+  protected buildStore(
+    chunks: DocumentChunk[],
+    documents: KnowledgeDocument[],
+    collections: Collection[]
+  ): InMemoryVectorStore {
+    const store = new InMemoryVectorStore();
+    for (const chunk of chunks) {
+      if (!Array.isArray(chunk.embedding) || chunk.embedding.length === 0
+        || !chunk.embedding.every(value => typeof value === 'number' && Number.isFinite(value))) {
+        throw new Error(`Chunk ${chunk.id} has no usable embedding`);
+      }
+    }
+    store.applyUpsert(chunks);
+    if (store.chunks.size !== chunks.length) {
+      throw new Error('Chunk ids must be unique');
+    }
+    const broken = documents.find(document => document.chunkIds.some(id => !store.chunks.has(id)));
+    if (broken) {
+      throw new Error(`Chunks of document ${broken.id} are missing`);
+    }
+    store.applyUpsert([], documents, collections);
+    store.applyUpsert(chunks, documents, collections);
+    return store;
+  }
+
+  /** Swap in the contents and indexes of a store made by `buildStore`. */
+  protected takeOver(store: InMemoryVectorStore): void {
+    this.chunks = store.chunks;
+    this.modelCounts = store.modelCounts;
+    this.documents = store.documents;
+    this.collections = store.collections;
+    this.vectors = store.vectors;
+    this.annIndex = store.annIndex;
+    this.keywordIndex = store.keywordIndex;
+  }
+
+  /** Remove every document and chunk. Collections stay, now empty. */
+  protected applyClear(): void {
+    this.documents.clear();
+    this.chunks.clear();
+    this.modelCounts.clear();
+    this.vectors.clear();
+    this.annIndex = null;
+    this.keywordIndex.clear();
+  }
+
+  private filterPredicate(filter: SearchFilter | undefined): ((id: string) => boolean) | undefined {
+    if (!filter || isEmptyFilter(filter)) return undefined;
+    return id => {
+      const chunk = this.chunks.get(id);
+      return !!chunk && matchesFilter(chunk, filter);
+    };
+  }
+
+  private exactSearch(
+    queryVector: Float32Array,
+    topK: number,
+    accept?: (id: string) => boolean
+  ): { id: string; score: number }[] {
+    const matches: { id: string; score: number }[] = [];
+    for (const [id, vector] of this.vectors) {
+      if (accept && !accept(id)) continue;
+      matches.push({ id, score: dot(queryVector, vector) });
+    }
+
+    return matches
+      .sort((a, b) => b.score - a.score)
+      .slice(0, topK);
+  }
+
+  private getAnnIndex(): HnswIndex {
+    if (!this.annIndex) {
+      const startedAt = Date.now();
+      this.annIndex = new HnswIndex();
+      for (const [id, vector] of this.vectors) {
+        this.annIndex.add(id, vector);
+      }
+      console.log(`Built ANN index over ${this.vectors.size} chunks in ${Date.now() - startedAt}ms`);
+    }
+    return this.annIndex;
+  }
+}
+
+// Each line of the store file is one change to the knowledge base. A change is
+// written with a single append, so a crash can at worst leave a torn final line.
+// It is discarded on load together with the change it belonged to, and the file
+// is rewritten so the next append does not land on the end of the torn line.
+type StoreLogEntry =
+  | { op: 'add'; chunks: DocumentChunk[]; documents?: KnowledgeDocument[]; collections?: Collection[] }
+  | { op: 'remove'; ids: string[] }
+  | { op: 'removeDocuments'; documentIds: string[] }
+  | { op: 'replace'; documentIds: string[]; chunks: DocumentChunk[]; documents: KnowledgeDocument[] }
+  | { op: 'removeCollection'; name: string }
+  | { op: 'clear' };
+
+/**
+ * Keeps chunks in memory for searching and mirrors every change to an
+ * append-only JSONL file, which is replayed when the store is first used.
+ */
+export class FileVectorStore extends InMemoryVectorStore {
+  private readonly storeFile: string;
+  private ready: Promise<void> | null = null;
+  // Serialises writes so log entries land in the order changes were made
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly dataDir: string) {
+    super();
+    this.storeFile = path.join(dataDir, 'vector-store.jsonl');
+  }
+
+  async add(chunks: DocumentChunk[]): Promise<void> {
+    await this.load();
+    await this.commit(
+      { op: 'add', chunks },
+      () => this.applyUpsert(chunks),
+      () => this.assertNewIds(chunks)
+    );
+  }
+
+  async addDocument(document: KnowledgeDocument, chunks: DocumentChunk[]): Promise<void> {
+    await this.load();
+    await this.commit(
+      { op: 'add', chunks, documents: [document] },
+      () => this.applyUpsert(chunks, [document]),
+      () => this.assertNewIds(chunks)
+    );
+  }
+
+  async replaceDocuments(
+    documentIds: string[],
+    document: KnowledgeDocument,
+    chunks: DocumentChunk[]
+  ): Promise<void> {
+    await this.load();
+    await this.commit(
+      { op: 'replace', documentIds, chunks, documents: [document] },
+      () => this.applyReplace(documentIds, chunks, [document]),
+      () => this.assertNewIds(chunks)
+    );
+  }
+
+  async upsert(chunks: DocumentChunk[]): Promise<void> {
+    await this.load();
+    await this.commit({ op: 'add', chunks }, () => this.applyUpsert(chunks));
+  }
+
+  async query(
+    embedding: number[],
+    topK: number,
+    options?: VectorQueryOptions
+  ): Promise<VectorSearchResult[]> {
+    await this.load();
+    return super.query(embedding, topK, options);
+  }
+
+  async keywordQuery(text: string, topK: number, filter?: SearchFilter): Promise<VectorSearchResult[]> {
+    await this.load();
+    return super.keywordQuery(text, topK, filter);
+  }
+
+  async get(id: string): Promise<DocumentChunk | undefined> {
+    await this.load();
+    return super.get(id);
+  }
+
+  async delete(ids: string[]): Promise<number> {
+    await this.load();
+    const existing = ids.filter(id => this.chunks.has(id));
+    if (existing.length === 0) return 0;
+
+    await this.commit({ op: 'remove', ids: existing }, () => this.applyDelete(existing));
+    return existing.length;
+  }
+
+  async deleteBySource(source: string): Promise<number> {
+    await this.load();
+    return this.delete(this.idsForSource(source));
+  }
+
+  async getDocument(id: string): Promise<KnowledgeDocument | undefined> {
+    await this.load();
+    return super.getDocument(id);
+  }
+
+  async listDocuments(): Promise<KnowledgeDocument[]> {
+    await this.load();
+    return super.listDocuments();
+  }
+
+  async deleteDocument(id: string): Promise<boolean> {
+    await this.load();
+    if (!this.documents.has(id)) return false;
+
+    await this.commit(
+      { op: 'removeDocuments', documentIds: [id] },
+      () => this.applyDeleteDocuments([id])
+    );
+    return true;
+  }
+
+  async listCollections(): Promise<Collection[]> {
+    await this.load();
+    return super.listCollections();
+  }
+
+  async saveCollection(collection: Collection): Promise<void> {
+    await this.load();
+    await this.commit(
+      { op: 'add', chunks: [], collections: [collection] },
+      () => this.applyUpsert([], [], [collection])
+    );
+  }
+
+  async deleteCollection(name: string): Promise<number> {
+    await this.load();
+    let removed = 0;
+    await this.commit(
+      { op: 'removeCollection', name },
+      () => { removed = this.applyDeleteCollection(name); }
+    );
+    return removed;
+  }
+
+  async clear(): Promise<void> {
+    await this.load();
+    // Collections are kept; only their contents are cleared
+    const collections = [...this.collections.values()];
+    await this.enqueue(async () => {
+      await this.writeSnapshot([], [], collections);
+      this.applyClear();
+    });
+  }
+
+  async restore(
+    chunks: DocumentChunk[],
+    documents: KnowledgeDocument[],
+    collections: Collection[]
+  ): Promise<void> {
+    await this.load();
+    // Index the new contents first, so a snapshot that cannot be loaded never reaches the file
+    const restored = this.buildStore(chunks, documents, collections);
+    // The new contents become the whole file, so the swap is one rename
+    await this.enqueue(async () => {
+      await this.writeSnapshot(chunks, documents, collections);
+      this.takeOver(restored);
+    });
+  }
+
+  async stats(): Promise<VectorStoreStats> {
+    await this.load();
+    return super.stats();
+  }
+
+  async embeddingModels(): Promise<Record<string, number>> {
+    await this.load();
+    return super.embeddingModels();
+  }
+
+  async *iterate(): AsyncIterableIterator<DocumentChunk> {
+    await this.load();
+    yield* super.iterate();
+  }
+
+  private load(): Promise<void> {
+    if (!this.ready) {
+      // A failed read is not cached, so the next call tries again
+      this.ready = this.replayLog().catch(error => {
+        this.ready = null;
+        throw error;
+      });
+    }
+    return this.ready;
+  }
+
+  private async replayLog(): Promise<void> {
+    let contents: string;
+    try {
+      contents = await readFile(this.storeFile, 'utf-8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    let entryCount = 0;
+    let damaged = contents.length > 0 && !contents.endsWith('\n');
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+
+      let entry: StoreLogEntry;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        console.warn('Skipping unreadable entry in vector store file');
+        damaged = true;
+        continue;
+      }
+
+      entryCount++;
+      if (entry.op === 'add') {
+        this.applyUpsert(entry.chunks, entry.documents, entry.collections);
+      } else if (entry.op === 'remove') {
+        this.applyDelete(entry.ids);
+      } else if (entry.op === 'removeDocuments') {
+        this.applyDeleteDocuments(entry.documentIds);
+      } else if (entry.op === 'replace') {
+        this.applyReplace(entry.documentIds, entry.chunks, entry.documents);
+      } else if (entry.op === 'removeCollection') {
+        this.applyDeleteCollection(entry.name);
+      } else if (entry.op === 'clear') {
+        this.applyClear();
+      }
+    }
+
+    // Compact the log once it holds more history than live data, when it is
+    // damaged, or when chunks from before document records existed were given
+    // a document
+    const adopted = this.adoptOrphanChunks();
+    if (damaged || adopted || (entryCount > 1 && entryCount > this.chunks.size)) {
+      await this.writeSnapshot(
+        [...this.chunks.values()],
+        [...this.documents.values()],
+        [...this.collections.values()]
+      );
+    }
+
+    console.log(`Loaded ${this.chunks.size} chunks from ${this.storeFile}`);
+  }
+
+  /**
+   * Persist a log entry, then apply the change in memory. Both happen in the
+   * write queue, after `check`, so the check sees every earlier change.
+   */
+  private async commit(entry: StoreLogEntry, apply: () => void, check?: () => void): Promise<void> {
+    await this.enqueue(async () => {
+      check?.();
+      await mkdir(this.dataDir, { recursive: true });
+      await appendFile(this.storeFile, JSON.stringify(entry) + '\n');
+      apply();
+    });
+  }
+
+  private enqueue(write: () => Promise<void>): Promise<void> {
+    const next = this.writeQueue.then(write);
+    // Keep the queue alive after a failed write; the caller still sees the error
+    this.writeQueue = next.catch(() => undefined);
+    return next;
+  }
+
+  private async writeSnapshot(
+    chunks: DocumentChunk[],
+    documents: KnowledgeDocument[],
+    collections: Collection[]
+  ): Promise<void> {
+    await mkdir(this.dataDir, { recursive: true });
+
+    // Write to a temporary file first so the rename swaps the store atomically
+    const tempFile = `${this.storeFile}.tmp`;
+    const entry: StoreLogEntry = { op: 'add', chunks, documents, collections };
+    const isEmpty = chunks.length === 0 && collections.length === 0;
+    await writeFile(tempFile, isEmpty ? '' : JSON.stringify(entry) + '\n');
+    await rename(tempFile, this.storeFile);
+  }
+}
+
+function extractVideoId(url: string): string | undefined {
+  return url.match(/(?:[?&]v=|youtu\.be\/|\/embed\/|\/v\/)([\w-]{11})/)?.[1]
+    ?? (/^[\w-]{11}$/.test(url) ? url : undefined);
+}
+
+// Route handlers can be bundled separately, so keep one store per process
+const globalForVectorStore = globalThis as unknown as { vectorStore?: VectorStore };
+
+/**
+ * Returns the configured vector store. Set VECTOR_STORE to `memory` for a
+ * non-persistent store; the default `file` store lives in VECTOR_STORE_DIR.
+ */
+export function getVectorStore(): VectorStore {
+  if (!globalForVectorStore.vectorStore) {
+    globalForVectorStore.vectorStore = createVectorStore(process.env.VECTOR_STORE || 'file');
+  }
+  return globalForVectorStore.vectorStore;
+}
+
+export function createVectorStore(backend: string): VectorStore {
+  switch (backend) {
+    case 'memory':
+      return new InMemoryVectorStore();
+    case 'file':
+      return new FileVectorStore(process.env.VECTOR_STORE_DIR || path.join(process.cwd(), 'data'));
+    default:
+      throw new Error(`Unknown vector store backend: ${backend}`);
+  }
+}
@@ -1,4 +1,5 @@
 import { YoutubeTranscript } from 'youtube-transcript';
+import { splitText } from '@/utils/textSplitter';
 
 export interface YouTubeVideoInfo {
   id: string;
@@ -70,8 +71,8 @@ export class YouTubeTranscriptLoader {
       // Process transcript
       const fullText = transcript.map((item: { text: string }) => item.text).join(' ');
       
-      // Create semantic chunks (similar to LangChain's text splitters)
-      const chunks = this.createSemanticChunks(fullText, transcript);
+      // Split into overlapping chunks, dropping tiny fragments
+      const chunks = splitText(fullText, { minChunkSize: 50 });
 
       return {
         text: fullText,
@@ -85,56 +86,6 @@ export class YouTubeTranscriptLoader {
     }
   }
 
-  /**
-   * Create semantic chunks from transcript with timing information
-   * Similar to LangChain's RecursiveCharacterTextSplitter
-   */
-  private createSemanticChunks(fullText: string, transcript: { text: string; offset?: number }[]): string[] {
-    const chunks: string[] = [];
-    const maxChunkSize = 1000;
-    const overlap = 200;
-
-    let currentChunk = '';
-    let currentSize = 0;
-
-    for (const item of transcript) {
-      const text = item.text;
-      const textWithSpace = currentChunk ? ` ${text}` : text;
-
-      if (currentSize + textWithSpace.length > maxChunkSize && currentChunk) {
-        // Add current chunk
-        chunks.push(currentChunk.trim());
-        
-        // Start new chunk with overlap
-        const overlapText = this.getOverlapText(currentChunk, overlap);
-        currentChunk = overlapText + textWithSpace;
-        currentSize = currentChunk.length;
-      } else {
-        currentChunk += textWithSpace;
-        currentSize += textWithSpace.length;
-      }
-    }
-
-    // Add final chunk
-    if (currentChunk.trim()) {
-      chunks.push(currentChunk.trim());
-    }
-
-    return chunks.filter(chunk => chunk.length > 50); // Filter out very small chunks
-  }
-
-  /**
-   * Get overlap text for chunk continuity
-   */
-  private getOverlapText(text: string, overlapSize: number): string {
-    if (text.length <= overlapSize) return text;
-    
-    const overlap = text.slice(-overlapSize);
-    const lastSpaceIndex = overlap.lastIndexOf(' ');
-    
-    return lastSpaceIndex > 0 ? overlap.slice(lastSpaceIndex + 1) : overlap;
-  }
-
   /**
    * Validate if a YouTube URL can be processed
    */